@@ -1,4 +1,5 @@
 import {
+	a11ySnapshotTool,
 	createOpenAIResponsesAdapter,
 	createAgentMessages,
 	isAgentError,
@@ -204,6 +205,7 @@ const agentMessages = createAgentMessages();
 const tools = [
 	jsInterpreterTool(),
 	jsRunTool(),
+	a11ySnapshotTool(),
 	domSummaryTool(),
 	domSubtreeHtmlTool(),
 	domAppendHtmlTool(),
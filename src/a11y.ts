@@ -0,0 +1,502 @@
+export type A11yNode = {
+	ref: string;
+	role: string;
+	name?: string;
+	value?: string;
+	states: string[];
+	children: A11yChild[];
+};
+
+export type A11yChild = A11yNode | { text: string };
+
+export type A11ySnapshotOptions = {
+	window?: Window;
+	interactiveOnly?: boolean;
+	maxNodes?: number;
+	maxNameLength?: number;
+};
+
+export type A11ySnapshot = {
+	nodes: A11yChild[];
+	count: number;
+	truncated: boolean;
+};
+
+type RefRegistry = {
+	counter: number;
+	byElement: WeakMap<Element, string>;
+	byRef: Map<string, Element>;
+};
+
+export const DEFAULT_A11Y_MAX_NODES = 500;
+export const DEFAULT_A11Y_MAX_NAME_LENGTH = 100;
+
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+const ELEMENT_REF_PATTERN = /^@e\d+$/;
+
+const SKIPPED_TAGS = new Set(["head", "link", "meta", "noscript", "script", "style", "template", "title"]);
+
+const LEAF_ROLES = new Set([
+	"button",
+	"checkbox",
+	"combobox",
+	"heading",
+	"img",
+	"link",
+	"menuitem",
+	"menuitemcheckbox",
+	"menuitemradio",
+	"meter",
+	"option",
+	"progressbar",
+	"radio",
+	"searchbox",
+	"slider",
+	"spinbutton",
+	"switch",
+	"tab",
+	"textbox",
+	"treeitem",
+]);
+
+const NAME_FROM_CONTENT_ROLES = new Set([
+	"button",
+	"checkbox",
+	"heading",
+	"link",
+	"menuitem",
+	"menuitemcheckbox",
+	"menuitemradio",
+	"option",
+	"radio",
+	"switch",
+	"tab",
+	"treeitem",
+]);
+
+const INTERACTIVE_ROLES = new Set([
+	"button",
+	"checkbox",
+	"combobox",
+	"link",
+	"listbox",
+	"menuitem",
+	"menuitemcheckbox",
+	"menuitemradio",
+	"option",
+	"radio",
+	"searchbox",
+	"slider",
+	"spinbutton",
+	"switch",
+	"tab",
+	"textbox",
+	"treeitem",
+]);
+
+const VALUE_ROLES = new Set(["combobox", "searchbox", "slider", "spinbutton", "textbox"]);
+
+const LANDMARKS: Record<string, string> = {
+	aside: "complementary",
+	footer: "contentinfo",
+	header: "banner",
+	main: "main",
+	nav: "navigation",
+};
+
+const INPUT_ROLES: Record<string, string> = {
+	button: "button",
+	checkbox: "checkbox",
+	email: "textbox",
+	image: "button",
+	number: "spinbutton",
+	radio: "radio",
+	range: "slider",
+	reset: "button",
+	search: "searchbox",
+	submit: "button",
+	tel: "textbox",
+	text: "textbox",
+	url: "textbox",
+	password: "textbox",
+};
+
+const registries = new WeakMap<Document, RefRegistry>();
+
+function registryFor(doc: Document): RefRegistry {
+	let registry = registries.get(doc);
+	if (!registry) {
+		registry = { counter: 0, byElement: new WeakMap(), byRef: new Map() };
+		registries.set(doc, registry);
+	}
+	return registry;
+}
+
+export const isElementRef = (value: string): boolean => ELEMENT_REF_PATTERN.test(value.trim());
+
+export function elementRef(element: Element): string {
+	const registry = registryFor(element.ownerDocument);
+	let ref = registry.byElement.get(element);
+	if (!ref) {
+		registry.counter += 1;
+		ref = `@e${registry.counter}`;
+		registry.byElement.set(element, ref);
+	}
+	registry.byRef.set(ref, element);
+	return ref;
+}
+
+export function resolveElementRef(ref: string, doc: Document): Element | null {
+	const registry = registries.get(doc);
+	const element = registry?.byRef.get(ref.trim());
+	if (element && !element.isConnected) {
+		registry?.byRef.delete(ref.trim());
+		return null;
+	}
+	return element ?? null;
+}
+
+function pruneRefs(doc: Document): void {
+	const registry = registries.get(doc);
+	if (!registry) {
+		return;
+	}
+	for (const [ref, element] of registry.byRef) {
+		if (!element.isConnected) {
+			registry.byRef.delete(ref);
+		}
+	}
+}
+
+const collapse = (text: string): string => text.replace(/\s+/g, " ").trim();
+
+const clip = (text: string, maxLength: number): string =>
+	text.length > maxLength ? `${text.slice(0, maxLength)}…` : text;
+
+const tagOf = (element: Element): string => element.tagName.toLowerCase();
+
+const inputType = (element: Element): string => (element.getAttribute("type") ?? "text").toLowerCase();
+
+function isHidden(element: Element, win?: Window): boolean {
+	const tag = tagOf(element);
+	if (SKIPPED_TAGS.has(tag) || element.hasAttribute("hidden") || element.getAttribute("aria-hidden") === "true") {
+		return true;
+	}
+	if (tag === "input" && inputType(element) === "hidden") {
+		return true;
+	}
+	const style = win?.getComputedStyle?.(element);
+	return style?.display === "none" || style?.visibility === "hidden";
+}
+
+function implicitRole(element: Element): string | null {
+	const tag = tagOf(element);
+	if (/^h[1-6]$/.test(tag)) {
+		return "heading";
+	}
+	if (LANDMARKS[tag]) {
+		return LANDMARKS[tag];
+	}
+	switch (tag) {
+		case "a":
+		case "area":
+			return element.hasAttribute("href") ? "link" : null;
+		case "button":
+		case "summary":
+			return "button";
+		case "input":
+			return INPUT_ROLES[inputType(element)] ?? "textbox";
+		case "textarea":
+			return "textbox";
+		case "select":
+			return element.hasAttribute("multiple") || Number(element.getAttribute("size")) > 1 ? "listbox" : "combobox";
+		case "option":
+			return "option";
+		case "img":
+			return element.getAttribute("alt") === "" ? "presentation" : "img";
+		case "ul":
+		case "ol":
+		case "menu":
+			return "list";
+		case "li":
+			return "listitem";
+		case "table":
+			return "table";
+		case "tr":
+			return "row";
+		case "td":
+			return "cell";
+		case "th":
+			return "columnheader";
+		case "form":
+			return "form";
+		case "dialog":
+			return "dialog";
+		case "fieldset":
+		case "details":
+			return "group";
+		case "section":
+			return element.hasAttribute("aria-label") || element.hasAttribute("aria-labelledby") ? "region" : null;
+		case "progress":
+			return "progressbar";
+		case "meter":
+			return "meter";
+		default:
+			return null;
+	}
+}
+
+function roleOf(element: Element): string | null {
+	const explicit = element.getAttribute("role")?.trim().split(/\s+/)[0];
+	return explicit || implicitRole(element);
+}
+
+function isFocusable(element: Element): boolean {
+	const tabIndex = element.getAttribute("tabindex");
+	return tabIndex !== null && Number(tabIndex) >= 0;
+}
+
+function textOf(node: Node, win?: Window): string {
+	if (node.nodeType === TEXT_NODE) {
+		return node.textContent ?? "";
+	}
+	if (node.nodeType !== ELEMENT_NODE) {
+		return "";
+	}
+	const element = node as Element;
+	const tag = tagOf(element);
+	if (isHidden(element, win) || tag === "select" || tag === "textarea") {
+		return "";
+	}
+	if (tag === "img") {
+		return element.getAttribute("alt") ?? "";
+	}
+	return Array.from(element.childNodes)
+		.map((child) => textOf(child, win))
+		.join("");
+}
+
+function labelText(element: Element, win?: Window): string {
+	const labels = (element as HTMLInputElement).labels;
+	return labels ? Array.from(labels, (label) => textOf(label, win)).join(" ") : "";
+}
+
+function accessibleName(element: Element, role: string, win?: Window): string {
+	const doc = element.ownerDocument;
+	const labelledBy = element.getAttribute("aria-labelledby");
+	if (labelledBy) {
+		const text = labelledBy
+			.split(/\s+/)
+			.map((id) => doc.getElementById(id))
+			.filter((target): target is HTMLElement => target !== null)
+			.map((target) => textOf(target, win))
+			.join(" ");
+		if (collapse(text)) {
+			return collapse(text);
+		}
+	}
+	const ariaLabel = element.getAttribute("aria-label");
+	if (ariaLabel && collapse(ariaLabel)) {
+		return collapse(ariaLabel);
+	}
+	const tag = tagOf(element);
+	const type = inputType(element);
+	if (tag === "input" && ["button", "submit", "reset"].includes(type)) {
+		return element.getAttribute("value") ?? (type === "submit" ? "Submit" : type === "reset" ? "Reset" : "");
+	}
+	if (tag === "input" && type === "image") {
+		return element.getAttribute("alt") ?? "";
+	}
+	if (tag === "input" || tag === "select" || tag === "textarea") {
+		const label = collapse(labelText(element, win));
+		if (label) {
+			return label;
+		}
+	}
+	if (tag === "img" || tag === "area") {
+		const alt = element.getAttribute("alt");
+		if (alt) {
+			return collapse(alt);
+		}
+	}
+	const caption =
+		tag === "fieldset"
+			? element.querySelector(":scope > legend")
+			: tag === "table"
+				? element.querySelector(":scope > caption")
+				: tag === "figure"
+					? element.querySelector(":scope > figcaption")
+					: null;
+	if (caption) {
+		return collapse(textOf(caption, win));
+	}
+	if (NAME_FROM_CONTENT_ROLES.has(role)) {
+		const content = collapse(textOf(element, win));
+		if (content) {
+			return content;
+		}
+	}
+	return collapse(element.getAttribute("title") ?? element.getAttribute("placeholder") ?? "");
+}
+
+function valueOf(element: Element, role: string): string | undefined {
+	if (!VALUE_ROLES.has(role)) {
+		return undefined;
+	}
+	const tag = tagOf(element);
+	if (tag === "select") {
+		return Array.from((element as HTMLSelectElement).selectedOptions, (option) => collapse(option.text)).join(", ");
+	}
+	if (tag === "input" || tag === "textarea") {
+		const value = (element as HTMLInputElement).value;
+		return tag === "input" && inputType(element) === "password" && value ? "•".repeat(value.length) : value;
+	}
+	return element.getAttribute("aria-valuetext") ?? element.getAttribute("aria-valuenow") ?? undefined;
+}
+
+function statesOf(element: Element, role: string): string[] {
+	const states: string[] = [];
+	const aria = (name: string) => element.getAttribute(`aria-${name}`);
+	const field = element as HTMLInputElement;
+	if (role === "heading") {
+		const level = aria("level") ?? tagOf(element).match(/^h([1-6])$/)?.[1];
+		if (level) {
+			states.push(`level=${level}`);
+		}
+	}
+	if (field.disabled === true || aria("disabled") === "true") {
+		states.push("disabled");
+	}
+	if (tagOf(element) === "input" && (role === "checkbox" || role === "radio")) {
+		if (field.indeterminate) {
+			states.push("checked=mixed");
+		} else if (field.checked) {
+			states.push("checked");
+		}
+	} else if (aria("checked") === "true") {
+		states.push("checked");
+	} else if (aria("checked") === "mixed") {
+		states.push("checked=mixed");
+	}
+	if (aria("pressed") === "true") {
+		states.push("pressed");
+	}
+	if ((tagOf(element) === "option" && (element as HTMLOptionElement).selected) || aria("selected") === "true") {
+		states.push("selected");
+	}
+	const expanded = aria("expanded");
+	if (expanded === "true" || expanded === "false") {
+		states.push(expanded === "true" ? "expanded" : "collapsed");
+	}
+	if (field.required === true || aria("required") === "true") {
+		states.push("required");
+	}
+	if (field.readOnly === true || aria("readonly") === "true") {
+		states.push("readonly");
+	}
+	if (aria("invalid") === "true") {
+		states.push("invalid");
+	}
+	if (element.ownerDocument.activeElement === element) {
+		states.push("focused");
+	}
+	return states;
+}
+
+export function computeA11ySnapshot(root: Element, options: A11ySnapshotOptions = {}): A11ySnapshot {
+	const win = options.window ?? root.ownerDocument.defaultView ?? undefined;
+	const maxNodes = options.maxNodes ?? DEFAULT_A11Y_MAX_NODES;
+	const maxNameLength = options.maxNameLength ?? DEFAULT_A11Y_MAX_NAME_LENGTH;
+	const interactiveOnly = options.interactiveOnly ?? false;
+	let count = 0;
+	let truncated = false;
+	pruneRefs(root.ownerDocument);
+
+	const pushText = (items: A11yChild[], text: string) => {
+		const last = items[items.length - 1];
+		if (last && "text" in last) {
+			last.text = clip(`${last.text} ${text}`, maxNameLength);
+		} else {
+			items.push({ text: clip(text, maxNameLength) });
+		}
+	};
+	const visitChildren = (element: Element): A11yChild[] => {
+		const items: A11yChild[] = [];
+		for (const child of Array.from(element.childNodes)) {
+			if (count >= maxNodes) {
+				truncated = true;
+				break;
+			}
+			if (child.nodeType === TEXT_NODE) {
+				const text = collapse(child.textContent ?? "");
+				if (text && !interactiveOnly) {
+					pushText(items, text);
+				}
+			} else if (child.nodeType === ELEMENT_NODE) {
+				for (const item of visit(child as Element)) {
+					if ("text" in item) {
+						pushText(items, item.text);
+					} else {
+						items.push(item);
+					}
+				}
+			}
+		}
+		return items;
+	};
+	const visit = (element: Element): A11yChild[] => {
+		if (isHidden(element, win)) {
+			return [];
+		}
+		const rawRole = roleOf(element);
+		const role = rawRole === "presentation" || rawRole === "none" ? null : rawRole;
+		const interactive = (role !== null && INTERACTIVE_ROLES.has(role)) || isFocusable(element);
+		if (!role && !isFocusable(element)) {
+			return visitChildren(element);
+		}
+		if (interactiveOnly && !interactive) {
+			return visitChildren(element);
+		}
+		const resolvedRole = role ?? "generic";
+		count += 1;
+		const name = clip(accessibleName(element, resolvedRole, win), maxNameLength);
+		const value = valueOf(element, resolvedRole);
+		return [
+			{
+				ref: elementRef(element),
+				role: resolvedRole,
+				...(name ? { name } : {}),
+				...(value !== undefined ? { value: clip(value, maxNameLength) } : {}),
+				states: statesOf(element, resolvedRole),
+				children: LEAF_ROLES.has(resolvedRole) ? [] : visitChildren(element),
+			},
+		];
+	};
+
+	const nodes = visit(root);
+	return { nodes, count, truncated };
+}
+
+export function formatA11ySnapshot(snapshot: A11ySnapshot): string {
+	const lines: string[] = [];
+	const write = (items: A11yChild[], depth: number) => {
+		const indent = "  ".repeat(depth);
+		for (const item of items) {
+			if ("text" in item) {
+				lines.push(`${indent}- text ${JSON.stringify(item.text)}`);
+				continue;
+			}
+			const name = item.name ? ` ${JSON.stringify(item.name)}` : "";
+			const value = item.value !== undefined ? ` value=${JSON.stringify(item.value)}` : "";
+			const states = item.states.length > 0 ? ` [${item.states.join(", ")}]` : "";
+			lines.push(`${indent}- ${item.role}${name}${value}${states} ${item.ref}`);
+			write(item.children, depth + 1);
+		}
+	};
+	write(snapshot.nodes, 0);
+	if (snapshot.truncated) {
+		lines.push(`- … (stopped after ${snapshot.count} nodes)`);
+	}
+	return lines.join("\n");
+}
@@ -2,7 +2,17 @@ import { pipe } from "fp-ts/lib/function.js";
 import * as E from "fp-ts/lib/Either.js";
 import * as O from "fp-ts/lib/Option.js";
 import OpenAI from "openai";
-import type { AgentEvent, AgentStreamEvent, AgentGenerate, Message, TokenCounter, ToolDefinition } from "./types";
+import { contextWindowForModel, getModelInfo, type ModelInfo } from "./models";
+import { countTokensForModel } from "./tokenizer";
+import type {
+	AgentEvent,
+	AgentStreamEvent,
+	AgentGenerate,
+	Message,
+	TokenCounter,
+	TokenUsage,
+	ToolDefinition,
+} from "./types";
 
 const toError = (error: unknown): Error =>
 	error instanceof Error ? error : new Error(String(error));
@@ -34,47 +44,28 @@ export type AgentAdapter = {
 	generate: AgentGenerate;
 	countTokens?: TokenCounter;
 	contextWindowTokens?: number;
+	modelInfo?: ModelInfo;
 };
 
-function estimateTokenCount(messages: Message[]): number {
-	const text = messages.map((message) => messageToText(message)).join("\n");
-	const length = text.length;
-	if (length === 0) {
-		return 0;
-	}
-	return Math.ceil(length / 4);
-}
+export class AdapterHttpError extends Error {
+	public readonly status: number;
+	public readonly headers?: Headers;
 
-function messageToText(message: Message): string {
-	if ("role" in message && typeof message.role === "string") {
-		return `${message.role}:${typeof message.content === "string" ? message.content : JSON.stringify(message.content)}`;
-	}
-	if ("type" in message) {
-		return JSON.stringify(message);
+	public constructor(message: string, status: number, headers?: Headers) {
+		super(message);
+		this.name = "AdapterHttpError";
+		this.status = status;
+		this.headers = headers;
 	}
-	return JSON.stringify(message);
-}
-
-export async function countTokensForModel(messages: Message[], model: string): Promise<number> {
-	void model;
-	return estimateTokenCount(messages);
 }
 
-export function contextWindowForModel(model: string): number {
-	const normalized = model.toLowerCase();
-	if (normalized.includes("128k") || normalized.includes("128000")) {
-		return 128_000;
-	}
-	if (normalized.includes("200k") || normalized.includes("200000")) {
-		return 200_000;
-	}
-	if (normalized.includes("32k") || normalized.includes("32000")) {
-		return 32_000;
-	}
-	if (normalized.includes("16k") || normalized.includes("16000")) {
-		return 16_000;
-	}
-	return 96_000;
+export async function responseError(label: string, response: Response): Promise<AdapterHttpError> {
+	const detail = await response.text().catch(() => "");
+	return new AdapterHttpError(
+		`${label} failed with status ${response.status}${detail ? `: ${detail}` : ""}`,
+		response.status,
+		response.headers
+	);
 }
 
 export type OpenAIResponsesStreamEvent = {
@@ -94,6 +85,10 @@ export type OpenAIResponsesStreamEvent = {
 		text?: string;
 		refusal?: string;
 	};
+	response?: {
+		model?: string;
+		usage?: OpenAIResponsesUsage;
+	};
 	item?: {
 		type?: string;
 		content?: Array<{ type?: string; text?: string; refusal?: string }>;
@@ -105,6 +100,13 @@ export type OpenAIResponsesStreamEvent = {
 	};
 };
 
+export type OpenAIResponsesUsage = {
+	input_tokens?: number;
+	output_tokens?: number;
+	input_tokens_details?: { cached_tokens?: number };
+	output_tokens_details?: { reasoning_tokens?: number };
+};
+
 type FunctionCallEntry = {
 	callId: string;
 	name?: string;
@@ -116,6 +118,15 @@ type PendingCallEntry = {
 	args?: string;
 };
 
+function toTokenUsage(usage: OpenAIResponsesUsage): TokenUsage {
+	return {
+		inputTokens: usage.input_tokens ?? 0,
+		outputTokens: usage.output_tokens ?? 0,
+		reasoningTokens: usage.output_tokens_details?.reasoning_tokens ?? 0,
+		cachedInputTokens: usage.input_tokens_details?.cached_tokens ?? 0,
+	};
+}
+
 function outputItemText(item: OpenAIResponsesStreamEvent["item"]): string {
 	if (!item?.content || !Array.isArray(item.content)) {
 		return "";
@@ -368,7 +379,15 @@ export function createOpenAIResponsesAdapter(options: OpenAIResponsesAdapterOpti
 					return;
 				case "response.audio.delta":
 				case "response.audio.done":
+					break;
 				case "response.completed":
+					if (event.response?.usage) {
+						yield right({
+							type: "usage",
+							usage: toTokenUsage(event.response.usage),
+							model: event.response.model ?? model,
+						});
+					}
 					break;
 				case "response.output_item.added":
 				case "response.output_item.done": {
@@ -423,5 +442,6 @@ export function createOpenAIResponsesAdapter(options: OpenAIResponsesAdapterOpti
 		generate,
 		countTokens,
 		contextWindowTokens: windowTokens,
+		modelInfo: getModelInfo(model),
 	};
 }
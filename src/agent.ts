@@ -9,22 +9,43 @@ import type {
 	AgentStatusStreamEvent,
 	AgentStreamEvent,
 	Callable,
+	HandlerErrorEvent,
 	Message,
 	RunAgentOptions,
 	ToolCall,
 	ToolContext,
 	ToolDefinition,
+	UsageEvent,
 } from "./types";
+import { compactMessages, projectRequestMessages } from "./compaction";
+import type { DomHistory, DomTransactionLabel } from "./dom-history";
+import { contextWindowForModel, getModelInfo } from "./models";
+import { budgetExceeded, costForUsage, createUsageLedger, recordUsage } from "./usage";
+import {
+	CHECKPOINT_VERSION,
+	pendingToolCalls,
+	SKIPPED_CALL_OUTPUT,
+	takePendingCalls,
+	type CheckpointStatus,
+	type ResolvedPendingCall,
+} from "./checkpoint-format";
 import { Skill } from "./skill";
 import { Tool } from "./tools";
 import {
 	addToolCall,
+	addToolOutput,
 	applyStreamEvent,
 	finalContent,
 	flushThinking,
 	initLoopState,
+	reportToolError,
+	requestApproval,
+	runToolBatch,
 	runToolCall,
+	shouldReportToolErrors,
 	type CallTarget,
+	type LoopState,
+	type PreparedCall,
 	type StreamOutcome,
 } from "./execute";
 
@@ -42,52 +63,11 @@ export function isAgentEvent(event: AgentStreamEvent): event is E.Right<AgentEve
 	return E.isRight(event);
 }
 
-const DEFAULT_CONTEXT_WINDOW_TOKENS = 96_000;
 const DEFAULT_COMPACT_THRESHOLD = 0.75;
+const DEFAULT_MAX_CONSECUTIVE_TOOL_ERRORS = 3;
 
-function getMessageRole(message: Message): string | undefined {
-	if ("role" in message && typeof message.role === "string") {
-		return message.role;
-	}
-	const messageType = (message as { type?: unknown }).type;
-	if (messageType === "message") {
-		const role = (message as { role?: unknown }).role;
-		return typeof role === "string" ? role : undefined;
-	}
-	return undefined;
-}
-
-function compactHistory(messages: Message[]): Message[] {
-	const firstUserIndex = messages.findIndex((message) => getMessageRole(message) === "user");
-	if (firstUserIndex === -1) {
-		return messages;
-	}
-	const head = messages.slice(0, firstUserIndex);
-	const segments: Message[][] = [];
-	let current: Message[] | null = null;
-	for (let i = firstUserIndex; i < messages.length; i += 1) {
-		const message = messages[i];
-		const role = getMessageRole(message);
-		if (role === "user") {
-			if (current && current.length > 0) {
-				segments.push(current);
-			}
-			current = [message];
-			continue;
-		}
-		if (current) {
-			current.push(message);
-		}
-	}
-	if (current && current.length > 0) {
-		segments.push(current);
-	}
-	if (segments.length <= 3) {
-		return messages;
-	}
-	const tailSegments = segments.slice(-3).flat();
-	return [...head, ...tailSegments];
-}
+const tooManyToolErrors = (count: number): Error =>
+	new Error(`Tool calls failed ${count} times in a row; stopping the run.`);
 
 function pruneDanglingToolCalls(messages: Message[]): void {
 	const callIds = new Set<string>();
@@ -225,7 +205,78 @@ function normalizeToolArgs(args: unknown): unknown {
 	);
 }
 
+async function* skipApproval(
+	prepared: PreparedCall
+): AsyncGenerator<AgentStreamEvent, E.Either<Error, PreparedCall | null>, void> {
+	return E.right(prepared);
+}
+
+async function* withDomTransaction<T>(
+	domHistory: DomHistory,
+	label: DomTransactionLabel,
+	stream: AsyncGenerator<AgentStreamEvent, T, void>
+): AsyncGenerator<AgentStreamEvent, T, void> {
+	domHistory.begin(label);
+	let committed = false;
+	try {
+		const outcome = yield* stream;
+		const transaction = domHistory.commit();
+		committed = true;
+		if (transaction) {
+			yield right({
+				type: "dom.change",
+				transactionId: transaction.id,
+				...(transaction.callId ? { callId: transaction.callId } : {}),
+				...(transaction.name ? { name: transaction.name } : {}),
+				depth: transaction.depth,
+				...transaction.summary,
+			});
+		}
+		return outcome;
+	} finally {
+		if (!committed) {
+			domHistory.commit();
+		}
+	}
+}
+
+export class RunTimeoutError extends Error {
+	public readonly timeoutMs: number;
+
+	public constructor(timeoutMs: number) {
+		super(`Run did not finish within ${timeoutMs}ms and was cancelled.`);
+		this.name = "RunTimeoutError";
+		this.timeoutMs = timeoutMs;
+	}
+}
+
 const activeRuns = new WeakMap<Message[], AbortController>();
+const emittedEvents = new WeakMap<Message[], AgentEvent[]>();
+const MAX_EMITTED_EVENTS = 50;
+
+function createEmitter(history: Message[]): (event: AgentEvent) => void {
+	return (event) => {
+		const queue = emittedEvents.get(history) ?? [];
+		queue.push(event);
+		emittedEvents.set(history, queue.slice(-MAX_EMITTED_EVENTS));
+	};
+}
+
+function takeEmittedEvents(history: Message[]): AgentEvent[] {
+	const events = emittedEvents.get(history) ?? [];
+	emittedEvents.delete(history);
+	const handlerErrors = events.filter((event): event is HandlerErrorEvent => event.type === "handler.error");
+	if (handlerErrors.length > 0) {
+		history.push({
+			role: "system",
+			content: [
+				"Event handlers bound with domBindEvent threw errors:",
+				...handlerErrors.map((event) => `- ${event.event} on ${event.xpath}: ${event.error.name}: ${event.error.message}`),
+			].join("\n"),
+		});
+	}
+	return events;
+}
 
 export function createAgentMessages(): Message[] {
 	return [{ role: "system", content: BASE_SYSTEM_PROMPT }];
@@ -242,10 +293,17 @@ export async function* runAgent(
 	options?: RunAgentOptions
 ): AsyncGenerator<AgentStreamEvent, void, void> {
 	const history = messages ?? createAgentMessages();
+	const usageLedger = options?.usageLedger ?? createUsageLedger();
+	options = { ...options, usageLedger };
 	const skipActiveRuns = options?.skipActiveRuns ?? false;
 	const skillDepth = options?.skillDepth ?? 0;
+	const parallelToolCalls = options?.parallelToolCalls ?? false;
+	const reportErrors = shouldReportToolErrors(options);
+	const maxConsecutiveToolErrors = options?.maxConsecutiveToolErrors ?? DEFAULT_MAX_CONSECUTIVE_TOOL_ERRORS;
+	let consecutiveToolErrors = 0;
 	const hasCallableListOverride = options?.callableListMessage !== undefined;
-	const controller = skipActiveRuns ? null : new AbortController();
+	const runTimeoutMs = skillDepth === 0 ? options?.runTimeoutMs : undefined;
+	const controller = skipActiveRuns && runTimeoutMs === undefined ? null : new AbortController();
 	const runSignal = controller?.signal ?? signal;
 	if (!skipActiveRuns) {
 		const previous = activeRuns.get(history);
@@ -253,14 +311,19 @@ export async function* runAgent(
 			previous.abort(new Error("Superseded by a new request."));
 		}
 		activeRuns.set(history, controller as AbortController);
-		if (signal) {
-			if (signal.aborted) {
-				controller?.abort(signal.reason);
-			} else {
-				signal.addEventListener("abort", () => controller?.abort(signal.reason), { once: true });
-			}
+	}
+	const forwardAbort = () => controller?.abort(signal?.reason);
+	if (controller && signal) {
+		if (signal.aborted) {
+			controller.abort(signal.reason);
+		} else {
+			signal.addEventListener("abort", forwardAbort, { once: true });
 		}
 	}
+	const runTimer =
+		controller && runTimeoutMs !== undefined
+			? setTimeout(() => controller.abort(new RunTimeoutError(runTimeoutMs)), runTimeoutMs)
+			: undefined;
 	const callablesBlock = formatCallables("Callables", callables);
 	const rootCallableListMessage = hasCallableListOverride
 		? options?.callableListMessage ?? null
@@ -283,24 +346,78 @@ export async function* runAgent(
 		document: context?.document ?? docFromRoot ?? (hasWindow ? document : undefined),
 		window: context?.window ?? (hasWindow ? window : undefined),
 		signal: runSignal,
+		emit: context?.emit ?? (skillDepth === 0 ? createEmitter(history) : undefined),
+	};
+	const trackUsage = (event: UsageEvent): UsageEvent => {
+		const model = event.model ?? options?.model;
+		const cost = costForUsage(event.usage, model ? getModelInfo(model)?.pricing : undefined);
+		recordUsage(usageLedger, event.usage, skillDepth, cost ?? 0);
+		return {
+			...event,
+			model,
+			depth: skillDepth,
+			...(cost !== undefined ? { cost } : {}),
+			totals: { ...usageLedger.total },
+		};
 	};
+	const toolDefs = toOpenAITools(callables);
+	const resume = skillDepth === 0 ? options?.resume : undefined;
+	const resumedCalls = resume ? takePendingCalls(history, resume.checkpoint) : [];
 	pruneDanglingToolCalls(history);
-	if ((options?.skillDepth ?? 0) === 0) {
+	const startupEvents: AgentEvent[] = [];
+	if (skillDepth === 0) {
+		const model = options?.model;
+		if (model && !getModelInfo(model)) {
+			startupEvents.push({
+				type: "warning",
+				code: "unknown_model",
+				message: `Model "${model}" is not in the model registry; using default limits. Call registerModel() to describe it.`,
+			});
+		}
 		const tokenCounter = options?.tokenCounter;
-		if (tokenCounter) {
-			const projectedMessages: Message[] = [...history, { role: "user", content: input }];
-			const contextWindow = options?.contextWindowTokens ?? DEFAULT_CONTEXT_WINDOW_TOKENS;
+		if (tokenCounter && !resume) {
+			const request = {
+				pendingMessages: [
+					...(rootCallableListMessage ? [rootCallableListMessage] : []),
+					{ role: "user" as const, content: input },
+				],
+				tools: toolDefs,
+			};
+			const contextWindow = options?.contextWindowTokens ?? contextWindowForModel(model ?? "");
 			const threshold = options?.compactThreshold ?? DEFAULT_COMPACT_THRESHOLD;
-			const tokenCount = await Promise.resolve(tokenCounter(projectedMessages, options?.model));
+			const tokenCount = await Promise.resolve(
+				tokenCounter(projectRequestMessages(history, request), options?.model)
+			);
 			if (tokenCount >= contextWindow * threshold) {
-				const compacted = compactHistory(history);
-				if (compacted !== history) {
-					history.splice(0, history.length, ...compacted);
+				const compacted = await compactMessages(history, options?.compaction ?? "truncate", {
+					generate,
+					signal: runSignal,
+					tokenCounter,
+					model: options?.model,
+					targetTokens: contextWindow * threshold,
+					...request,
+					onUsage: (event) => startupEvents.push(trackUsage(event)),
+				});
+				if (compacted.messages !== history) {
+					const before = history.length;
+					history.splice(0, history.length, ...compacted.messages);
+					startupEvents.push({
+						type: "compaction",
+						strategy: compacted.strategy,
+						applied: compacted.applied,
+						before,
+						after: history.length,
+						...(compacted.error ? { error: compacted.error.message } : {}),
+					});
 				}
 			}
 		}
 	}
-	history.push({ role: "user", content: input });
+	if (!resume) {
+		history.push({ role: "user", content: input });
+	} else if (resume.checkpoint.partialText && resumedCalls.length === 0) {
+		history.push({ role: "assistant", content: resume.checkpoint.partialText });
+	}
 	let sawError = false;
 	const callableMap = new Map<string, Callable>();
 	for (const callable of callables) {
@@ -309,7 +426,6 @@ export async function* runAgent(
 			callableMap.set(callable.name, callable);
 		}
 	}
-	const toolDefs = toOpenAITools(callables);
 	const resolveTarget = (call: ToolCall, args: unknown): E.Either<Error, CallTarget> => {
 		const callable = callableMap.get(call.name);
 		if (!callable) {
@@ -333,32 +449,290 @@ export async function* runAgent(
 		}
 		return E.left(new Error(`Unknown callable kind: ${call.name}`));
 	};
+	const isParallelTarget = (target: CallTarget): boolean =>
+		parallelToolCalls && target.kind === "tool" && target.tool.parallel;
+	const session = skillDepth === 0 ? options?.session : undefined;
+	const persistSession = async (): Promise<AgentEvent | null> => {
+		if (!session) {
+			return null;
+		}
+		try {
+			await session.store.save(session.id, history);
+			return null;
+		} catch (error) {
+			return {
+				type: "warning",
+				code: "session_save_failed",
+				message: `Could not save session "${session.id}": ${toError(error).message}`,
+			};
+		}
+	};
+	const onCheckpoint = skillDepth === 0 ? options?.onCheckpoint : undefined;
+	let step = resume?.checkpoint.step ?? 0;
+	let currentStep: LoopState | null = null;
+	let activeCalls: ToolCall[] = resumedCalls;
+	const saveCheckpoint = async (status: CheckpointStatus): Promise<AgentEvent | null> => {
+		if (!onCheckpoint) {
+			return null;
+		}
+		const pendingCalls = pendingToolCalls(history, activeCalls);
+		try {
+			await onCheckpoint({
+				version: CHECKPOINT_VERSION,
+				status,
+				step,
+				maxSteps,
+				input,
+				pendingCalls,
+				partialText: status === "interrupted" && pendingCalls.length === 0 ? currentStep?.textBuffer ?? "" : "",
+				updatedAt: Date.now(),
+			});
+			return null;
+		} catch (error) {
+			return {
+				type: "warning",
+				code: "checkpoint_save_failed",
+				message: `Could not save checkpoint: ${toError(error).message}`,
+			};
+		}
+	};
+	const saveProgress = async (status: CheckpointStatus): Promise<AgentEvent[]> => {
+		const saveWarning = await persistSession();
+		const checkpointWarning = await saveCheckpoint(status);
+		return [saveWarning, checkpointWarning].filter((warning): warning is AgentEvent => warning !== null);
+	};
+	let progressSaved = false;
+	const domHistory = options?.domHistory;
+	const domLabel = (batch: PreparedCall[]): DomTransactionLabel => ({
+		...(batch.length === 1 && batch[0].call.id ? { callId: batch[0].call.id } : {}),
+		name: batch.map((prepared) => prepared.call.name).join(", "),
+		depth: skillDepth,
+	});
+	const approveToolCall = options?.approveToolCall;
+	const approveCall = (prepared: PreparedCall) =>
+		approveToolCall
+			? requestApproval(prepared, skillDepth, approveToolCall, runSignal, resolveTarget, history)
+			: skipApproval(prepared);
+	const runCall = (prepared: PreparedCall, loopMessages: Message[]) =>
+		runToolCall(
+			prepared.call,
+			prepared.args,
+			prepared.target,
+			baseContext,
+			runSignal,
+			maxSteps,
+			generate,
+			runAgent,
+			BASE_SYSTEM_PROMPT,
+			loopMessages,
+			options
+		);
+
+	const executeToolCalls = async function* (calls: ToolCall[]): AsyncGenerator<AgentStreamEvent, boolean, void> {
+		let index = 0;
+		while (index < calls.length) {
+			if (runSignal?.aborted) {
+				break;
+			}
+			if (onCheckpoint) {
+				for (const warning of await saveProgress("running")) {
+					yield right(warning);
+				}
+			}
+
+			const call = calls[index];
+			const args = normalizeToolArgs(call.args);
+			addToolCall(history, call);
+			index += 1;
+
+			const resolved = resolveTarget(call, args);
+			if (E.isLeft(resolved)) {
+				if (!reportErrors) {
+					sawError = true;
+					yield left(resolved.left);
+					return false;
+				}
+				yield right({ type: "tool.start", name: call.name, args, callId: call.id });
+				yield right(reportToolError(call, resolved.left, null, history));
+				consecutiveToolErrors += 1;
+				if (consecutiveToolErrors >= maxConsecutiveToolErrors) {
+					sawError = true;
+					yield left(tooManyToolErrors(consecutiveToolErrors));
+					return false;
+				}
+				continue;
+			}
+			const approved = yield* approveCall({ call, args, target: resolved.right });
+			if (E.isLeft(approved)) {
+				sawError = true;
+				yield left(approved.left);
+				return false;
+			}
+			if (!approved.right) {
+				continue;
+			}
+
+			const batch: PreparedCall[] = [approved.right];
+			if (isParallelTarget(approved.right.target)) {
+				while (index < calls.length) {
+					const nextCall = calls[index];
+					const nextArgs = normalizeToolArgs(nextCall.args);
+					const nextResolved = resolveTarget(nextCall, nextArgs);
+					if (E.isLeft(nextResolved) || !isParallelTarget(nextResolved.right)) {
+						break;
+					}
+					addToolCall(history, nextCall);
+					index += 1;
+					const nextApproved = yield* approveCall({
+						call: nextCall,
+						args: nextArgs,
+						target: nextResolved.right,
+					});
+					if (E.isLeft(nextApproved)) {
+						sawError = true;
+						yield left(nextApproved.left);
+						return false;
+					}
+					if (nextApproved.right) {
+						batch.push(nextApproved.right);
+					}
+				}
+			}
+
+			const callOutcomes: StreamOutcome[] = [];
+			const recordOutcome = async function* (prepared: PreparedCall, loopMessages: Message[]) {
+				const callOutcome = yield* runCall(prepared, loopMessages);
+				callOutcomes[batch.indexOf(prepared)] = callOutcome;
+				return callOutcome;
+			};
+			const batchStream =
+				batch.length === 1
+					? recordOutcome(batch[0], history)
+					: runToolBatch(batch, recordOutcome, history);
+			const toolStream =
+				domHistory && batch.every((prepared) => prepared.target.kind === "tool")
+					? withDomTransaction(domHistory, domLabel(batch), batchStream)
+					: batchStream;
+			let outcome: StreamOutcome = "continue";
+			while (true) {
+				const { value, done } = await toolStream.next();
+				if (done) {
+					outcome = value;
+					break;
+				}
+				if (E.isLeft(value)) {
+					sawError = true;
+					yield value;
+					return false;
+				}
+				yield value;
+			}
+			if (outcome === "error") {
+				sawError = true;
+				return false;
+			}
+			if (outcome === "stop") {
+				return false;
+			}
+			for (const callOutcome of callOutcomes) {
+				if (callOutcome !== "failed") {
+					consecutiveToolErrors = 0;
+					continue;
+				}
+				consecutiveToolErrors += 1;
+				if (consecutiveToolErrors >= maxConsecutiveToolErrors) {
+					sawError = true;
+					yield left(tooManyToolErrors(consecutiveToolErrors));
+					return false;
+				}
+			}
+		}
+		return true;
+	};
 
 	try {
-		let step = 0;
+		for (const event of startupEvents) {
+			yield right(event);
+		}
+		if (skillDepth === 0) {
+			domHistory?.startRun();
+		}
+		if (resume) {
+			const resolved: ResolvedPendingCall[] = [];
+			for (const call of resume.checkpoint.pendingCalls) {
+				try {
+					const decision = resume.resolvePendingCall
+						? await resume.resolvePendingCall(call, resume.checkpoint)
+						: "skip";
+					resolved.push({ ...call, decision });
+				} catch (error) {
+					sawError = true;
+					yield left(toError(error));
+					return;
+				}
+			}
+			for (const call of resolved) {
+				if (call.decision === "skip") {
+					addToolCall(history, { id: call.callId, name: call.name, args: call.args });
+					addToolOutput(history, call.callId, SKIPPED_CALL_OUTPUT);
+				}
+			}
+			yield right({ type: "resume", step, calls: resolved });
+			const rerunIds = new Set(resolved.filter((call) => call.decision === "rerun").map((call) => call.callId));
+			activeCalls = resumedCalls.filter((call) => call.id && rerunIds.has(call.id));
+			if (activeCalls.length > 0 && !(yield* executeToolCalls(activeCalls))) {
+				return;
+			}
+		}
 		while (step < maxSteps) {
 			if (runSignal?.aborted) {
+				if (runSignal.reason instanceof RunTimeoutError) {
+					yield right({ type: "warning", code: "run_timeout", message: runSignal.reason.message });
+				}
+				break;
+			}
+			const budgetMessage = budgetExceeded(usageLedger, options?.budget);
+			if (budgetMessage) {
+				yield right({ type: "warning", code: "budget_exceeded", message: budgetMessage });
 				break;
 			}
 			step += 1;
+			if (skillDepth === 0) {
+				domHistory?.startStep();
+				for (const emitted of takeEmittedEvents(history)) {
+					yield right(emitted);
+				}
+			}
 			const stepState = initLoopState();
+			currentStep = stepState;
+			activeCalls = stepState.toolCalls;
 			const promptMessages = withSystemAfter(history, rootCallableListMessage);
-			const stream = await generate(promptMessages, toolDefs, runSignal);
+			const timedOut = () => (runSignal?.reason instanceof RunTimeoutError ? runSignal.reason : null);
 			let stop = false;
 
-			for await (const event of stream) {
-				if (E.isLeft(event)) {
-					sawError = true;
-					yield event;
-					return;
-				}
-				const { outcome, outputs } = applyStreamEvent(stepState, event.right);
-				for (const output of outputs) {
-					yield right(output);
+			try {
+				const stream = await generate(promptMessages, toolDefs, runSignal);
+				for await (const event of stream) {
+					if (E.isLeft(event)) {
+						if (timedOut()) {
+							break;
+						}
+						sawError = true;
+						yield event;
+						return;
+					}
+					const { outcome, outputs } = applyStreamEvent(stepState, event.right);
+					for (const output of outputs) {
+						yield right(output.type === "usage" ? trackUsage(output) : output);
+					}
+					if (outcome === "stop") {
+						stop = true;
+						break;
+					}
 				}
-				if (outcome === "stop") {
-					stop = true;
-					break;
+			} catch (error) {
+				if (!timedOut()) {
+					throw error;
 				}
 			}
 
@@ -367,59 +741,22 @@ export async function* runAgent(
 				yield right(thinkingEvent);
 			}
 
+			const timeout = timedOut();
+			if (timeout) {
+				yield right({ type: "warning", code: "run_timeout", message: timeout.message });
+				break;
+			}
+
 			if (stop) {
 				break;
 			}
 
 			if (stepState.toolCalls.length > 0) {
-				for (const call of stepState.toolCalls) {
-					if (runSignal?.aborted) {
-						break;
-					}
-
-					const args = normalizeToolArgs(call.args);
-					addToolCall(history, call);
-
-					const resolved = resolveTarget(call, args);
-					if (E.isLeft(resolved)) {
-						sawError = true;
-						yield left(resolved.left);
-						return;
-					}
-
-					const toolStream = runToolCall(
-						call,
-						args,
-						resolved.right,
-						baseContext,
-						runSignal,
-						maxSteps,
-						generate,
-						runAgent,
-						BASE_SYSTEM_PROMPT,
-						history
-					);
-					let outcome: StreamOutcome = "continue";
-					while (true) {
-						const { value, done } = await toolStream.next();
-						if (done) {
-							outcome = value;
-							break;
-						}
-						if (E.isLeft(value)) {
-							sawError = true;
-							yield value;
-							return;
-						}
-						yield value;
-					}
-					if (outcome === "error") {
-						sawError = true;
-						return;
-					}
-					if (outcome === "stop") {
-						return;
-					}
+				if (!(yield* executeToolCalls(stepState.toolCalls))) {
+					return;
+				}
+				for (const warning of await saveProgress("running")) {
+					yield right(warning);
 				}
 				continue;
 			}
@@ -427,6 +764,7 @@ export async function* runAgent(
 			const content = finalContent(stepState);
 			if (content) {
 				history.push({ role: "assistant", content });
+				currentStep = null;
 				if (!stepState.sawMessage) {
 					yield right({ type: "message", content });
 				}
@@ -435,7 +773,17 @@ export async function* runAgent(
 
 			break;
 		}
+		const warnings = await saveProgress(runSignal?.aborted ? "interrupted" : "completed");
+		progressSaved = true;
+		for (const warning of warnings) {
+			yield right(warning);
+		}
 	} finally {
+		clearTimeout(runTimer);
+		signal?.removeEventListener("abort", forwardAbort);
+		if (!progressSaved) {
+			await saveProgress("interrupted");
+		}
 		if (!skipActiveRuns && controller && activeRuns.get(history) === controller) {
 			activeRuns.delete(history);
 		}
@@ -454,6 +802,12 @@ const statusForEvent = (event: AgentEvent): AgentStatus | null => {
 		case "thinking.delta":
 		case "thinking":
 			return { kind: AgentStatusKind.Thinking };
+		case "tool.approval":
+			return event.status === "pending"
+				? { kind: AgentStatusKind.AwaitingApproval, toolName: event.name }
+				: null;
+		case "retry":
+			return { kind: AgentStatusKind.Retrying };
 		case "tool.start":
 			return { kind: AgentStatusKind.CallingTool, toolName: event.name };
 		case "tool.end":
@@ -0,0 +1,440 @@
+import * as E from "fp-ts/lib/Either.js";
+import { responseError, type AgentAdapter } from "./adapters";
+import { contextWindowForModel, getModelInfo } from "./models";
+import { readSseMessages } from "./sse";
+import { countTokensForModel } from "./tokenizer";
+import type {
+	AgentEvent,
+	AgentStreamEvent,
+	AgentGenerate,
+	Message,
+	TokenCounter,
+	TokenUsage,
+	ToolDefinition,
+} from "./types";
+
+const toError = (error: unknown): Error =>
+	error instanceof Error ? error : new Error(String(error));
+const right = (event: AgentEvent): AgentStreamEvent => E.right(event);
+const left = (error: Error): AgentStreamEvent => E.left(error);
+
+const DEFAULT_BASE_URL = "https://api.anthropic.com/v1";
+const DEFAULT_API_VERSION = "2023-06-01";
+const DEFAULT_MAX_TOKENS = 8_192;
+const MAX_UNSEEN_THINKING_CALLS = 64;
+
+export type AnthropicMessagesAdapterOptions = {
+	model: string;
+	apiKey?: string;
+	baseURL?: string;
+	apiVersion?: string;
+	headers?: Record<string, string>;
+	maxTokens?: number;
+	thinking?: { budgetTokens: number };
+	toolChoice?: "auto" | "none" | "required";
+	requestOptions?: Record<string, unknown>;
+	contextWindowTokens?: number;
+	dangerouslyAllowBrowser?: boolean;
+	fetch?: typeof fetch;
+};
+
+export type AnthropicContentBlock =
+	| { type: "text"; text: string }
+	| { type: "image"; source: { type: "base64"; media_type: string; data: string } | { type: "url"; url: string } }
+	| { type: "tool_use"; id: string; name: string; input: unknown }
+	| { type: "tool_result"; tool_use_id: string; content: string }
+	| { type: "thinking"; thinking: string; signature: string }
+	| { type: "redacted_thinking"; data: string };
+
+export type AnthropicMessage = {
+	role: "user" | "assistant";
+	content: AnthropicContentBlock[];
+};
+
+export type AnthropicRequest = {
+	system?: string;
+	messages: AnthropicMessage[];
+};
+
+export type AnthropicStreamEvent = {
+	type: string;
+	index?: number;
+	message?: {
+		model?: string;
+		usage?: AnthropicUsage;
+	};
+	content_block?: {
+		type?: string;
+		id?: string;
+		name?: string;
+		text?: string;
+		thinking?: string;
+		signature?: string;
+		data?: string;
+	};
+	delta?: {
+		type?: string;
+		text?: string;
+		partial_json?: string;
+		thinking?: string;
+		signature?: string;
+		stop_reason?: string | null;
+	};
+	usage?: AnthropicUsage;
+	error?: { type?: string; message?: string };
+};
+
+export type AnthropicUsage = {
+	input_tokens?: number;
+	output_tokens?: number;
+	cache_read_input_tokens?: number;
+	cache_creation_input_tokens?: number;
+};
+
+type ContentItem = { type?: string; text?: string; image_url?: string | null; refusal?: string };
+
+type ThinkingBlock = Extract<AnthropicContentBlock, { type: "thinking" } | { type: "redacted_thinking" }>;
+
+type BlockBuffer = {
+	type: string;
+	id?: string;
+	name?: string;
+	text: string;
+	signature: string;
+	data?: string;
+};
+
+function imageBlock(url: string): AnthropicContentBlock {
+	const match = /^data:([^;]+);base64,(.*)$/s.exec(url);
+	if (match) {
+		return { type: "image", source: { type: "base64", media_type: match[1], data: match[2] } };
+	}
+	return { type: "image", source: { type: "url", url } };
+}
+
+function contentBlocks(content: unknown): AnthropicContentBlock[] {
+	if (typeof content === "string") {
+		return content ? [{ type: "text", text: content }] : [];
+	}
+	if (!Array.isArray(content)) {
+		return [];
+	}
+	return (content as ContentItem[]).flatMap((part): AnthropicContentBlock[] => {
+		if ((part.type === "input_text" || part.type === "output_text") && part.text) {
+			return [{ type: "text", text: part.text }];
+		}
+		if (part.type === "refusal" && part.refusal) {
+			return [{ type: "text", text: part.refusal }];
+		}
+		if (part.type === "input_image" && part.image_url) {
+			return [imageBlock(part.image_url)];
+		}
+		return [];
+	});
+}
+
+function parseToolInput(args: string | undefined): unknown {
+	if (!args) {
+		return {};
+	}
+	try {
+		return JSON.parse(args);
+	} catch {
+		return { input: args };
+	}
+}
+
+export function toAnthropicRequest(
+	messages: Message[],
+	thinkingForCall: (callId: string) => ThinkingBlock[] = () => []
+): AnthropicRequest {
+	const system: string[] = [];
+	const result: AnthropicMessage[] = [];
+	const append = (role: AnthropicMessage["role"], blocks: AnthropicContentBlock[]) => {
+		if (!blocks.length) {
+			return;
+		}
+		const previous = result[result.length - 1];
+		if (previous?.role === role) {
+			previous.content.push(...blocks);
+		} else {
+			result.push({ role, content: blocks });
+		}
+	};
+	for (const message of messages) {
+		const item = message as {
+			type?: string;
+			role?: string;
+			content?: unknown;
+			call_id?: string;
+			name?: string;
+			arguments?: string;
+			output?: unknown;
+		};
+		if (item.type === "function_call") {
+			const callId = item.call_id ?? "";
+			append("assistant", [
+				{ type: "tool_use", id: callId, name: item.name ?? "", input: parseToolInput(item.arguments) },
+			]);
+			const turn = result[result.length - 1];
+			const hasThinking = turn.content.some(
+				(block) => block.type === "thinking" || block.type === "redacted_thinking"
+			);
+			if (!hasThinking) {
+				turn.content.unshift(...thinkingForCall(callId));
+			}
+			continue;
+		}
+		if (item.type === "function_call_output") {
+			append("user", [
+				{
+					type: "tool_result",
+					tool_use_id: item.call_id ?? "",
+					content: typeof item.output === "string" ? item.output : JSON.stringify(item.output ?? null),
+				},
+			]);
+			continue;
+		}
+		if (!item.role || (item.type !== undefined && item.type !== "message")) {
+			continue;
+		}
+		const blocks = contentBlocks(item.content);
+		if (item.role === "system" || item.role === "developer") {
+			system.push(
+				blocks.map((block) => (block.type === "text" ? block.text : "")).join("")
+			);
+		} else if (item.role === "assistant" || item.role === "user") {
+			append(item.role, blocks);
+		}
+	}
+	return {
+		...(system.length ? { system: system.join("\n\n") } : {}),
+		messages: result,
+	};
+}
+
+export function toAnthropicTools(tools: ToolDefinition[] | undefined): Array<Record<string, unknown>> | undefined {
+	if (!tools?.length) {
+		return undefined;
+	}
+	return tools.flatMap((tool) => {
+		if (tool.type !== "function") {
+			return [];
+		}
+		return [
+			{
+				name: tool.name,
+				description: tool.description ?? undefined,
+				input_schema: tool.parameters ?? { type: "object" },
+			},
+		];
+	});
+}
+
+const toolChoiceParam = (toolChoice: AnthropicMessagesAdapterOptions["toolChoice"]) => {
+	switch (toolChoice) {
+		case "required":
+			return { type: "any" };
+		case "none":
+			return { type: "none" };
+		default:
+			return { type: "auto" };
+	}
+};
+
+function toTokenUsage(usage: AnthropicUsage, outputTokens: number): TokenUsage {
+	const cacheRead = usage.cache_read_input_tokens ?? 0;
+	return {
+		inputTokens: (usage.input_tokens ?? 0) + cacheRead + (usage.cache_creation_input_tokens ?? 0),
+		outputTokens,
+		reasoningTokens: 0,
+		cachedInputTokens: cacheRead,
+	};
+}
+
+export function createAnthropicMessagesAdapter(options: AnthropicMessagesAdapterOptions): AgentAdapter {
+	const {
+		model,
+		apiKey,
+		baseURL = DEFAULT_BASE_URL,
+		apiVersion = DEFAULT_API_VERSION,
+		headers,
+		maxTokens,
+		thinking,
+		toolChoice,
+		requestOptions,
+		contextWindowTokens,
+		dangerouslyAllowBrowser,
+		fetch: fetchImpl,
+	} = options;
+	const modelInfo = getModelInfo(model);
+	const unseenThinking = new Map<string, ThinkingBlock[]>();
+	const thinkingByCall = new WeakMap<Message, ThinkingBlock[]>();
+
+	const generate: AgentGenerate = async function* (
+		messages: Message[],
+		tools?: ToolDefinition[],
+		signal?: AbortSignal
+	) {
+		const callMessages = new Map<string, Message>();
+		for (const message of messages) {
+			if ("type" in message && message.type === "function_call") {
+				callMessages.set(message.call_id, message);
+				const pending = unseenThinking.get(message.call_id);
+				if (pending) {
+					thinkingByCall.set(message, pending);
+					unseenThinking.delete(message.call_id);
+				}
+			}
+		}
+		const thinkingFor = (callId: string) => {
+			const callMessage = callMessages.get(callId);
+			return (callMessage && thinkingByCall.get(callMessage)) ?? [];
+		};
+		const request = toAnthropicRequest(messages, thinkingFor);
+		const anthropicTools = toAnthropicTools(tools);
+		const body = {
+			model,
+			max_tokens: maxTokens ?? modelInfo?.maxOutputTokens ?? DEFAULT_MAX_TOKENS,
+			...request,
+			...(anthropicTools ? { tools: anthropicTools, tool_choice: toolChoiceParam(toolChoice) } : {}),
+			...(thinking ? { thinking: { type: "enabled", budget_tokens: thinking.budgetTokens } } : {}),
+			stream: true,
+			...(requestOptions ?? {}),
+		};
+		const response = await (fetchImpl ?? fetch)(`${baseURL.replace(/\/$/, "")}/messages`, {
+			method: "POST",
+			headers: {
+				"content-type": "application/json",
+				"anthropic-version": apiVersion,
+				...(apiKey ? { "x-api-key": apiKey } : {}),
+				...(dangerouslyAllowBrowser ? { "anthropic-dangerous-direct-browser-access": "true" } : {}),
+				...(headers ?? {}),
+			},
+			body: JSON.stringify(body),
+			signal,
+		});
+		if (!response.ok || !response.body) {
+			yield left(await responseError("Anthropic request", response));
+			return;
+		}
+		for (const message of messages) {
+			const callMessage = "type" in message && message.type === "function_call_output" && callMessages.get(message.call_id);
+			if (callMessage) {
+				thinkingByCall.delete(callMessage);
+			}
+		}
+
+		const blocks = new Map<number, BlockBuffer>();
+		const turnThinking: ThinkingBlock[] = [];
+		let usage: AnthropicUsage = {};
+		let outputTokens = 0;
+		let responseModel: string | undefined;
+
+		for await (const message of readSseMessages(response.body)) {
+			let event: AnthropicStreamEvent;
+			try {
+				event = JSON.parse(message.data) as AnthropicStreamEvent;
+			} catch (error) {
+				yield left(toError(error));
+				return;
+			}
+			switch (event.type) {
+				case "ping":
+					break;
+				case "message_start":
+					usage = event.message?.usage ?? {};
+					outputTokens = usage.output_tokens ?? 0;
+					responseModel = event.message?.model;
+					break;
+				case "content_block_start": {
+					const block = event.content_block ?? {};
+					blocks.set(event.index ?? 0, {
+						type: block.type ?? "",
+						id: block.id,
+						name: block.name,
+						text: block.text ?? block.thinking ?? "",
+						signature: block.signature ?? "",
+						data: block.data,
+					});
+					if (block.type === "text" && block.text) {
+						yield right({ type: "message.delta", delta: block.text });
+					}
+					if (block.type === "thinking" && block.thinking) {
+						yield right({ type: "thinking.delta", delta: block.thinking });
+					}
+					break;
+				}
+				case "content_block_delta": {
+					const buffer = blocks.get(event.index ?? 0);
+					const delta = event.delta ?? {};
+					if (delta.type === "text_delta" && delta.text) {
+						if (buffer) {
+							buffer.text += delta.text;
+						}
+						yield right({ type: "message.delta", delta: delta.text });
+					}
+					if (delta.type === "thinking_delta" && delta.thinking) {
+						if (buffer) {
+							buffer.text += delta.thinking;
+						}
+						yield right({ type: "thinking.delta", delta: delta.thinking });
+					}
+					if (delta.type === "input_json_delta" && buffer) {
+						buffer.text += delta.partial_json ?? "";
+					}
+					if (delta.type === "signature_delta" && buffer) {
+						buffer.signature += delta.signature ?? "";
+					}
+					break;
+				}
+				case "content_block_stop": {
+					const buffer = blocks.get(event.index ?? 0);
+					if (buffer?.type === "thinking") {
+						turnThinking.push({ type: "thinking", thinking: buffer.text, signature: buffer.signature });
+					}
+					if (buffer?.type === "redacted_thinking" && buffer.data) {
+						turnThinking.push({ type: "redacted_thinking", data: buffer.data });
+					}
+					if (buffer?.type === "tool_use" && buffer.id && buffer.name) {
+						if (turnThinking.length) {
+							unseenThinking.set(buffer.id, [...turnThinking]);
+							for (const callId of unseenThinking.keys()) {
+								if (unseenThinking.size <= MAX_UNSEEN_THINKING_CALLS) {
+									break;
+								}
+								unseenThinking.delete(callId);
+							}
+						}
+						yield right({ type: "tool.start", name: buffer.name, args: buffer.text || "{}", callId: buffer.id });
+					}
+					break;
+				}
+				case "message_delta":
+					outputTokens = event.usage?.output_tokens ?? outputTokens;
+					break;
+				case "message_stop":
+					yield right({
+						type: "usage",
+						usage: toTokenUsage(usage, outputTokens),
+						model: responseModel ?? model,
+					});
+					break;
+				case "error":
+					yield left(new Error(event.error?.message ?? "Anthropic stream error"));
+					return;
+				default:
+					break;
+			}
+		}
+	};
+	const countTokens: TokenCounter = (messages, selectedModel) =>
+		countTokensForModel(messages, selectedModel ?? model);
+	return {
+		model,
+		generate,
+		countTokens,
+		contextWindowTokens: contextWindowTokens ?? contextWindowForModel(model),
+		modelInfo,
+	};
+}
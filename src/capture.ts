@@ -0,0 +1,190 @@
+import { isNode } from "./dom";
+
+export type ConsoleLevel = "log" | "info" | "warn" | "error";
+
+export type ConsoleEntry = {
+	level: ConsoleLevel;
+	message: string;
+};
+
+export type CapturedError = {
+	name: string;
+	message: string;
+	stack?: string;
+};
+
+export type CaptureEnvelope = {
+	result: unknown;
+	logs: ConsoleEntry[];
+	errors: CapturedError[];
+	truncated?: true;
+};
+
+export type CaptureOptions = {
+	maxChars?: number;
+	forward?: boolean;
+};
+
+export type CaptureToolOptions = {
+	capture?: boolean | CaptureOptions;
+};
+
+export type ConsoleCapture = {
+	console: Pick<Console, ConsoleLevel>;
+	recordError: (error: unknown) => void;
+	finish: () => Omit<CaptureEnvelope, "result">;
+};
+
+export const DEFAULT_CAPTURE_MAX_CHARS = 4000;
+
+export class ScriptError extends Error {
+	public readonly logs: ConsoleEntry[];
+	public readonly errors: CapturedError[];
+
+	public constructor(error: unknown, captured: Omit<CaptureEnvelope, "result">) {
+		const cause = toCapturedError(error);
+		super(`${cause.name}: ${cause.message}`);
+		this.name = "ScriptError";
+		this.logs = captured.logs;
+		this.errors = captured.errors;
+		if (cause.stack) {
+			this.stack = cause.stack;
+		}
+	}
+}
+
+export function toCapturedError(error: unknown): CapturedError {
+	if (error instanceof Error || (typeof error === "object" && error !== null && "message" in error)) {
+		const { name, message, stack } = error as Error;
+		return { name: name || "Error", message: String(message), ...(stack ? { stack } : {}) };
+	}
+	return { name: "Error", message: String(error) };
+}
+
+export function formatConsoleArgs(args: unknown[]): string {
+	return args
+		.map((arg) => {
+			if (typeof arg === "string") {
+				return arg;
+			}
+			if (arg instanceof Error) {
+				return `${arg.name}: ${arg.message}`;
+			}
+			if (isNode(arg)) {
+				return arg.nodeType === 1 ? (arg as Element).outerHTML : arg.textContent ?? "";
+			}
+			try {
+				return JSON.stringify(arg) ?? String(arg);
+			} catch {
+				return String(arg);
+			}
+		})
+		.join(" ");
+}
+
+export function resolveCaptureOptions(option: boolean | CaptureOptions | undefined): CaptureOptions | null {
+	if (!option) {
+		return null;
+	}
+	return option === true ? {} : option;
+}
+
+export function limitCaptured(
+	logs: ConsoleEntry[],
+	errors: CapturedError[],
+	maxChars = DEFAULT_CAPTURE_MAX_CHARS
+): Omit<CaptureEnvelope, "result"> {
+	let remaining = maxChars;
+	let truncated = false;
+	const clip = (text: string): string => {
+		if (text.length <= remaining) {
+			remaining -= text.length;
+			return text;
+		}
+		truncated = true;
+		const clipped = `${text.slice(0, Math.max(0, remaining))}…`;
+		remaining = 0;
+		return clipped;
+	};
+	const keptErrors: CapturedError[] = [];
+	for (const error of errors) {
+		if (remaining <= 0) {
+			truncated = true;
+			break;
+		}
+		const message = clip(error.message);
+		const stack = error.stack && remaining > 0 ? clip(error.stack) : undefined;
+		keptErrors.push({ name: error.name, message, ...(stack ? { stack } : {}) });
+	}
+	const keptLogs: ConsoleEntry[] = [];
+	for (const entry of logs) {
+		if (remaining <= 0) {
+			truncated = true;
+			break;
+		}
+		keptLogs.push({ level: entry.level, message: clip(entry.message) });
+	}
+	return { logs: keptLogs, errors: keptErrors, ...(truncated ? { truncated: true as const } : {}) };
+}
+
+export function createConsoleCapture(options: CaptureOptions & { window?: Window } = {}): ConsoleCapture {
+	const maxChars = options.maxChars ?? DEFAULT_CAPTURE_MAX_CHARS;
+	const forward = options.forward ?? true;
+	const target = typeof console !== "undefined" ? console : undefined;
+	const logs: ConsoleEntry[] = [];
+	const errors: CapturedError[] = [];
+	let recorded = 0;
+	let overflow = false;
+	let active = true;
+
+	const keep = (size: number): boolean => {
+		if (recorded >= maxChars) {
+			overflow = true;
+			return false;
+		}
+		recorded += size;
+		return true;
+	};
+	const record = (level: ConsoleLevel) => (...args: unknown[]) => {
+		if (forward) {
+			target?.[level](...args);
+		}
+		if (!active) {
+			return;
+		}
+		const message = formatConsoleArgs(args);
+		if (keep(message.length)) {
+			logs.push({ level, message });
+		}
+	};
+	const recordError = (error: unknown) => {
+		if (!active) {
+			return;
+		}
+		const captured = toCapturedError(error);
+		if (keep(captured.message.length + (captured.stack?.length ?? 0))) {
+			errors.push(captured);
+		}
+	};
+	const onError = (event: Event) => recordError((event as ErrorEvent).error ?? (event as ErrorEvent).message);
+	const onRejection = (event: Event) => recordError((event as PromiseRejectionEvent).reason);
+	options.window?.addEventListener("error", onError);
+	options.window?.addEventListener("unhandledrejection", onRejection);
+
+	return {
+		console: {
+			log: record("log"),
+			info: record("info"),
+			warn: record("warn"),
+			error: record("error"),
+		},
+		recordError,
+		finish: () => {
+			active = false;
+			options.window?.removeEventListener("error", onError);
+			options.window?.removeEventListener("unhandledrejection", onRejection);
+			const limited = limitCaptured(logs, errors, maxChars);
+			return overflow ? { ...limited, truncated: true } : limited;
+		},
+	};
+}
@@ -0,0 +1,223 @@
+import * as E from "fp-ts/lib/Either.js";
+import type { AgentAdapter } from "./adapters";
+import type { GenerateMiddleware } from "./middleware";
+import { contextWindowForModel, getModelInfo } from "./models";
+import { countTokensForModel } from "./tokenizer";
+import type { AgentEvent, AgentGenerate, AgentStreamEvent, Message, TokenCounter, ToolDefinition } from "./types";
+
+const toError = (error: unknown): Error =>
+	error instanceof Error ? error : new Error(String(error));
+const right = (event: AgentEvent): AgentStreamEvent => E.right(event);
+const left = (error: Error): AgentStreamEvent => E.left(error);
+
+export const CASSETTE_VERSION = 1;
+
+export type CassetteMode = "strict" | "lenient";
+
+export type CassetteFrame = { event: AgentEvent } | { error: { name: string; message: string } };
+
+export type CassetteRequest = {
+	messages: Message[];
+	tools?: ToolDefinition[];
+};
+
+export type CassetteEntry = {
+	key: string;
+	request: CassetteRequest;
+	frames: CassetteFrame[];
+};
+
+export type Cassette = {
+	version: typeof CASSETTE_VERSION;
+	entries: CassetteEntry[];
+};
+
+export type ReplayAdapterOptions = {
+	mode?: CassetteMode;
+	model?: string;
+	contextWindowTokens?: number;
+};
+
+export class CassetteMissError extends Error {
+	public readonly key: string;
+	public readonly mode: CassetteMode;
+
+	public constructor(message: string, key: string, mode: CassetteMode) {
+		super(message);
+		this.name = "CassetteMissError";
+		this.key = key;
+		this.mode = mode;
+	}
+}
+
+export function createCassette(): Cassette {
+	return { version: CASSETTE_VERSION, entries: [] };
+}
+
+export function parseCassette(json: string): Cassette {
+	const parsed = JSON.parse(json) as Partial<Cassette>;
+	if (parsed.version !== CASSETTE_VERSION || !Array.isArray(parsed.entries)) {
+		throw new Error(`Unsupported cassette format (expected version ${CASSETTE_VERSION})`);
+	}
+	return parsed as Cassette;
+}
+
+export function stableStringify(value: unknown): string {
+	if (value === null || typeof value !== "object") {
+		return JSON.stringify(value) ?? "null";
+	}
+	if (Array.isArray(value)) {
+		return `[${value.map((item) => (item === undefined ? "null" : stableStringify(item))).join(",")}]`;
+	}
+	const entries = Object.entries(value as Record<string, unknown>)
+		.filter(([, item]) => item !== undefined)
+		.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+	return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(",")}}`;
+}
+
+function hashString(text: string): string {
+	let h1 = 0xdeadbeef;
+	let h2 = 0x41c6ce57;
+	for (let index = 0; index < text.length; index += 1) {
+		const code = text.charCodeAt(index);
+		h1 = Math.imul(h1 ^ code, 2654435761);
+		h2 = Math.imul(h2 ^ code, 1597334677);
+	}
+	h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+	h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+	return (h2 >>> 0).toString(16).padStart(8, "0") + (h1 >>> 0).toString(16).padStart(8, "0");
+}
+
+const normalizeText = (text: string) => text.replace(/\s+/g, " ").trim();
+
+function lenientMessages(messages: Message[]): unknown[] {
+	return messages.flatMap((message): unknown[] => {
+		const item = message as { role?: string; content?: unknown };
+		if (item.role === "system" || item.role === "developer") {
+			return [];
+		}
+		if (typeof item.content === "string") {
+			return [{ ...item, content: normalizeText(item.content) }];
+		}
+		return [message];
+	});
+}
+
+export function hashRequest(request: CassetteRequest, mode: CassetteMode = "strict"): string {
+	const normalized =
+		mode === "strict"
+			? { messages: request.messages, tools: request.tools ?? [] }
+			: { messages: lenientMessages(request.messages) };
+	return hashString(stableStringify(normalized));
+}
+
+const snapshot = <T>(value: T): T => (value === undefined ? value : (JSON.parse(JSON.stringify(value)) as T));
+
+export function recordCassette(cassette: Cassette): GenerateMiddleware {
+	return (next) =>
+		async function* (messages: Message[], tools?: ToolDefinition[], signal?: AbortSignal) {
+			const request: CassetteRequest = { messages: snapshot(messages), ...(tools ? { tools: snapshot(tools) } : {}) };
+			const entry: CassetteEntry = { key: hashRequest(request), request, frames: [] };
+			cassette.entries.push(entry);
+			try {
+				for await (const event of await next(messages, tools, signal)) {
+					entry.frames.push(
+						E.isLeft(event)
+							? { error: { name: event.left.name, message: event.left.message } }
+							: { event: snapshot(event.right) }
+					);
+					yield event;
+				}
+			} catch (error) {
+				const failure = toError(error);
+				entry.frames.push({ error: { name: failure.name, message: failure.message } });
+				throw error;
+			}
+		};
+}
+
+function frameToStreamEvent(frame: CassetteFrame): AgentStreamEvent {
+	if ("error" in frame) {
+		const error = new Error(frame.error.message);
+		error.name = frame.error.name;
+		return left(error);
+	}
+	return right(frame.event);
+}
+
+const lastUserText = (messages: Message[]): string => {
+	for (let index = messages.length - 1; index >= 0; index -= 1) {
+		const item = messages[index] as { role?: string; content?: unknown };
+		if (item.role === "user" && typeof item.content === "string") {
+			return item.content;
+		}
+	}
+	return "";
+};
+
+const toolNames = (tools?: ToolDefinition[]): string =>
+	(tools ?? [])
+		.flatMap((tool) => (tool.type === "function" ? [tool.name] : [tool.type]))
+		.sort()
+		.join(",");
+
+export function createReplayAdapter(cassette: Cassette, options: ReplayAdapterOptions = {}): AgentAdapter {
+	const mode = options.mode ?? "strict";
+	const model = options.model ?? "replay";
+	const used = new Set<CassetteEntry>();
+	const keyed = cassette.entries.map((entry) => ({
+		entry,
+		key: mode === "strict" ? entry.key : hashRequest(entry.request, "lenient"),
+	}));
+
+	const findEntry = (key: string, tools?: ToolDefinition[]): { entry?: CassetteEntry; exact: boolean } => {
+		const matches = keyed.filter((item) => item.key === key).map((item) => item.entry);
+		const fresh = matches.find((entry) => !used.has(entry)) ?? matches[matches.length - 1];
+		if (fresh || mode === "strict") {
+			return { entry: fresh, exact: true };
+		}
+		const names = toolNames(tools);
+		const entry = cassette.entries.find((item) => !used.has(item) && toolNames(item.request.tools) === names);
+		return { entry, exact: false };
+	};
+
+	const generate: AgentGenerate = async function* (messages: Message[], tools?: ToolDefinition[]) {
+		const key = hashRequest({ messages, tools }, mode);
+		const { entry, exact } = findEntry(key, tools);
+		if (!entry) {
+			const lastUser = lastUserText(messages);
+			yield left(
+				new CassetteMissError(
+					`No cassette entry matches request ${key} (${mode} mode, ${messages.length} messages` +
+						`${lastUser ? `, last user message "${lastUser.slice(0, 80)}"` : ""}; ` +
+						`${cassette.entries.length} recorded, ${used.size} used). ` +
+						"Re-record the cassette or replay it in lenient mode.",
+					key,
+					mode
+				)
+			);
+			return;
+		}
+		used.add(entry);
+		if (!exact) {
+			yield right({
+				type: "warning",
+				code: "cassette_mismatch",
+				message:
+					`No cassette entry matches request ${key}; replaying the next unused recording ` +
+					`(${cassette.entries.indexOf(entry) + 1} of ${cassette.entries.length}) with the same tools instead.`,
+			});
+		}
+		for (const frame of entry.frames) {
+			yield frameToStreamEvent(frame);
+		}
+	};
+	const countTokens: TokenCounter = (messages) => countTokensForModel(messages, model);
+	return {
+		model,
+		generate,
+		countTokens,
+		contextWindowTokens: options.contextWindowTokens ?? contextWindowForModel(model),
+		modelInfo: getModelInfo(model),
+	};
+}
@@ -0,0 +1,312 @@
+import * as E from "fp-ts/lib/Either.js";
+import OpenAI from "openai";
+import type { AgentAdapter, OpenAIClientOptions } from "./adapters";
+import { contextWindowForModel, getModelInfo } from "./models";
+import { countTokensForModel } from "./tokenizer";
+import type {
+	AgentEvent,
+	AgentStreamEvent,
+	AgentGenerate,
+	Message,
+	TokenCounter,
+	TokenUsage,
+	ToolDefinition,
+} from "./types";
+
+const toError = (error: unknown): Error =>
+	error instanceof Error ? error : new Error(String(error));
+const right = (event: AgentEvent): AgentStreamEvent => E.right(event);
+const left = (error: Error): AgentStreamEvent => E.left(error);
+
+export type OpenAIChatCompletionsClient = {
+	chat: {
+		completions: {
+			create: (
+				params: Record<string, unknown>,
+				requestOptions?: { signal?: AbortSignal }
+			) => Promise<AsyncIterable<OpenAIChatCompletionChunk>>;
+		};
+	};
+};
+
+export type OpenAIChatCompletionsAdapterOptions = {
+	client?: OpenAIChatCompletionsClient;
+	getClient?: () => OpenAIChatCompletionsClient;
+	model: string;
+	toolChoice?: "auto" | "none" | "required";
+	completionOptions?: Record<string, unknown>;
+	includeUsage?: boolean;
+	contextWindowTokens?: number;
+} & OpenAIClientOptions;
+
+export type OpenAIChatCompletionsUsage = {
+	prompt_tokens?: number;
+	completion_tokens?: number;
+	prompt_tokens_details?: { cached_tokens?: number };
+	completion_tokens_details?: { reasoning_tokens?: number };
+};
+
+export type OpenAIChatCompletionChunk = {
+	model?: string;
+	error?: unknown;
+	usage?: OpenAIChatCompletionsUsage | null;
+	choices?: Array<{
+		index?: number;
+		finish_reason?: string | null;
+		delta?: {
+			content?: string | null;
+			reasoning_content?: string | null;
+			reasoning?: string | null;
+			tool_calls?: Array<{
+				index: number;
+				id?: string;
+				type?: string;
+				function?: { name?: string; arguments?: string };
+			}>;
+		};
+	}>;
+};
+
+export type ChatToolCall = {
+	id: string;
+	type: "function";
+	function: { name: string; arguments: string };
+};
+
+export type ChatContentPart =
+	| { type: "text"; text: string }
+	| { type: "image_url"; image_url: { url: string } };
+
+export type ChatMessage =
+	| { role: "system"; content: string }
+	| { role: "user"; content: string | ChatContentPart[] }
+	| { role: "assistant"; content: string | null; tool_calls?: ChatToolCall[] }
+	| { role: "tool"; tool_call_id: string; content: string };
+
+type ContentItem = { type?: string; text?: string; image_url?: string | null; refusal?: string };
+
+type ToolCallBuffer = {
+	id?: string;
+	name?: string;
+	args: string;
+};
+
+function contentParts(content: unknown): ChatContentPart[] {
+	if (typeof content === "string") {
+		return [{ type: "text", text: content }];
+	}
+	if (!Array.isArray(content)) {
+		return [];
+	}
+	return (content as ContentItem[]).flatMap((part): ChatContentPart[] => {
+		if (part.type === "input_text" || part.type === "output_text") {
+			return [{ type: "text", text: part.text ?? "" }];
+		}
+		if (part.type === "refusal") {
+			return [{ type: "text", text: part.refusal ?? "" }];
+		}
+		if (part.type === "input_image" && part.image_url) {
+			return [{ type: "image_url", image_url: { url: part.image_url } }];
+		}
+		return [];
+	});
+}
+
+const partsToText = (parts: ChatContentPart[]): string =>
+	parts.map((part) => (part.type === "text" ? part.text : "")).join("");
+
+export function toChatMessages(messages: Message[]): ChatMessage[] {
+	const chat: ChatMessage[] = [];
+	for (const message of messages) {
+		const item = message as {
+			type?: string;
+			role?: string;
+			content?: unknown;
+			call_id?: string;
+			name?: string;
+			arguments?: string;
+			output?: unknown;
+		};
+		if (item.type === "function_call") {
+			const toolCall: ChatToolCall = {
+				id: item.call_id ?? "",
+				type: "function",
+				function: { name: item.name ?? "", arguments: item.arguments ?? "" },
+			};
+			const previous = chat[chat.length - 1];
+			if (previous?.role === "assistant") {
+				previous.tool_calls = [...(previous.tool_calls ?? []), toolCall];
+			} else {
+				chat.push({ role: "assistant", content: null, tool_calls: [toolCall] });
+			}
+			continue;
+		}
+		if (item.type === "function_call_output") {
+			chat.push({
+				role: "tool",
+				tool_call_id: item.call_id ?? "",
+				content: typeof item.output === "string" ? item.output : JSON.stringify(item.output ?? null),
+			});
+			continue;
+		}
+		if (!item.role || (item.type !== undefined && item.type !== "message")) {
+			continue;
+		}
+		const parts = contentParts(item.content);
+		if (item.role === "system" || item.role === "developer") {
+			chat.push({ role: "system", content: partsToText(parts) });
+		} else if (item.role === "assistant") {
+			chat.push({ role: "assistant", content: partsToText(parts) });
+		} else if (item.role === "user") {
+			const onlyText = parts.every((part) => part.type === "text");
+			chat.push({ role: "user", content: onlyText ? partsToText(parts) : parts });
+		}
+	}
+	return chat;
+}
+
+export function toChatTools(tools: ToolDefinition[] | undefined): Array<Record<string, unknown>> | undefined {
+	if (!tools?.length) {
+		return undefined;
+	}
+	return tools.flatMap((tool) => {
+		if (tool.type !== "function") {
+			return [];
+		}
+		return [
+			{
+				type: "function",
+				function: {
+					name: tool.name,
+					description: tool.description ?? undefined,
+					parameters: tool.parameters ?? undefined,
+					strict: tool.strict ?? undefined,
+				},
+			},
+		];
+	});
+}
+
+function toTokenUsage(usage: OpenAIChatCompletionsUsage): TokenUsage {
+	return {
+		inputTokens: usage.prompt_tokens ?? 0,
+		outputTokens: usage.completion_tokens ?? 0,
+		reasoningTokens: usage.completion_tokens_details?.reasoning_tokens ?? 0,
+		cachedInputTokens: usage.prompt_tokens_details?.cached_tokens ?? 0,
+	};
+}
+
+export function createOpenAIChatCompletionsAdapter(options: OpenAIChatCompletionsAdapterOptions): AgentAdapter {
+	const {
+		client,
+		getClient,
+		model,
+		toolChoice,
+		completionOptions,
+		includeUsage = true,
+		contextWindowTokens,
+		...clientOptions
+	} = options;
+	let cachedClient: OpenAIChatCompletionsClient | null = null;
+	let cachedClientKey: string | null = null;
+	const resolveClient = (): OpenAIChatCompletionsClient => {
+		if (getClient) {
+			return getClient();
+		}
+		if (client) {
+			return client;
+		}
+		const key = JSON.stringify(clientOptions);
+		if (cachedClient && cachedClientKey === key) {
+			return cachedClient;
+		}
+		const nextClient = new OpenAI(clientOptions) as unknown as OpenAIChatCompletionsClient;
+		cachedClient = nextClient;
+		cachedClientKey = key;
+		return nextClient;
+	};
+	const generate: AgentGenerate = async function* (
+		messages: Message[],
+		tools?: ToolDefinition[],
+		signal?: AbortSignal
+	) {
+		const chatTools = toChatTools(tools);
+		const stream = await resolveClient().chat.completions.create(
+			{
+				model,
+				messages: toChatMessages(messages),
+				tools: chatTools,
+				tool_choice: chatTools ? toolChoice ?? "auto" : undefined,
+				stream: true,
+				...(includeUsage ? { stream_options: { include_usage: true } } : {}),
+				...(completionOptions ?? {}),
+			},
+			signal ? { signal } : undefined
+		);
+
+		const toolCalls = new Map<number, ToolCallBuffer>();
+		let toolCallsFlushed = false;
+		const flushToolCalls = function* (): Generator<AgentStreamEvent> {
+			if (toolCallsFlushed) {
+				return;
+			}
+			toolCallsFlushed = true;
+			const ordered = [...toolCalls.entries()].sort((a, b) => a[0] - b[0]);
+			for (const [index, entry] of ordered) {
+				if (!entry.name) {
+					continue;
+				}
+				yield right({
+					type: "tool.start",
+					name: entry.name,
+					args: entry.args,
+					callId: entry.id ?? `call_${index}`,
+				});
+			}
+		};
+
+		for await (const chunk of stream) {
+			if (chunk.error) {
+				yield left(toError(chunk.error));
+				return;
+			}
+			for (const choice of chunk.choices ?? []) {
+				const delta = choice.delta;
+				const reasoning = delta?.reasoning_content ?? delta?.reasoning;
+				if (reasoning) {
+					yield right({ type: "thinking.delta", delta: reasoning });
+				}
+				if (delta?.content) {
+					yield right({ type: "message.delta", delta: delta.content });
+				}
+				for (const fragment of delta?.tool_calls ?? []) {
+					const entry = toolCalls.get(fragment.index) ?? { args: "" };
+					entry.id = fragment.id ?? entry.id;
+					entry.name = fragment.function?.name ?? entry.name;
+					entry.args += fragment.function?.arguments ?? "";
+					toolCalls.set(fragment.index, entry);
+				}
+				if (choice.finish_reason) {
+					yield* flushToolCalls();
+				}
+			}
+			if (chunk.usage) {
+				yield right({
+					type: "usage",
+					usage: toTokenUsage(chunk.usage),
+					model: chunk.model ?? model,
+				});
+			}
+		}
+		yield* flushToolCalls();
+	};
+	const countTokens: TokenCounter = (messages, selectedModel) =>
+		countTokensForModel(messages, selectedModel ?? model);
+	return {
+		model,
+		generate,
+		countTokens,
+		contextWindowTokens: contextWindowTokens ?? contextWindowForModel(model),
+		modelInfo: getModelInfo(model),
+	};
+}
@@ -0,0 +1,89 @@
+import type { Message, ToolCall } from "./types";
+
+export const CHECKPOINT_VERSION = 1;
+
+export type CheckpointStatus = "running" | "interrupted" | "completed";
+
+export type PendingToolCall = {
+	callId: string;
+	name: string;
+	args: unknown;
+};
+
+export type AgentCheckpoint = {
+	version: number;
+	status: CheckpointStatus;
+	step: number;
+	maxSteps: number;
+	input: string;
+	pendingCalls: PendingToolCall[];
+	partialText: string;
+	updatedAt: number;
+};
+
+export type CheckpointHandler = (checkpoint: AgentCheckpoint) => void | Promise<void>;
+
+export type PendingCallDecision = "rerun" | "skip";
+
+export type ResolvedPendingCall = PendingToolCall & { decision: PendingCallDecision };
+
+export type PendingCallResolver = (
+	call: PendingToolCall,
+	checkpoint: AgentCheckpoint
+) => PendingCallDecision | Promise<PendingCallDecision>;
+
+export type ResumeState = {
+	checkpoint: AgentCheckpoint;
+	resolvePendingCall?: PendingCallResolver;
+};
+
+export const SKIPPED_CALL_OUTPUT = {
+	skipped: true,
+	reason: "The run was interrupted before this call finished and it was not re-run. Call it again if it is still needed.",
+};
+
+export function pendingToolCalls(messages: Message[], calls: ToolCall[]): PendingToolCall[] {
+	const outputIds = new Set<string>();
+	for (const message of messages) {
+		if ("type" in message && message.type === "function_call_output" && message.call_id) {
+			outputIds.add(message.call_id);
+		}
+	}
+	return calls.flatMap((call) =>
+		call.id && !outputIds.has(call.id) ? [{ callId: call.id, name: call.name, args: call.args }] : []
+	);
+}
+
+export function takePendingCalls(messages: Message[], checkpoint: AgentCheckpoint): ToolCall[] {
+	const pendingIds = new Set(checkpoint.pendingCalls.map((call) => call.callId));
+	const kept = messages.filter(
+		(message) => !("type" in message && message.type === "function_call" && pendingIds.has(message.call_id))
+	);
+	messages.splice(0, messages.length, ...kept);
+	return checkpoint.pendingCalls.map((call) => ({ id: call.callId, name: call.name, args: call.args }));
+}
+
+export function parseCheckpoint(data: unknown): AgentCheckpoint {
+	const checkpoint = (typeof data === "string" ? JSON.parse(data) : data) as Partial<AgentCheckpoint> | null;
+	if (!checkpoint || typeof checkpoint !== "object" || !Array.isArray(checkpoint.pendingCalls)) {
+		throw new Error("Invalid checkpoint data: expected an object with a pendingCalls array");
+	}
+	if (typeof checkpoint.version !== "number" || checkpoint.version > CHECKPOINT_VERSION) {
+		throw new Error(
+			`Unsupported checkpoint format version ${String(checkpoint.version)} (this build reads up to ${CHECKPOINT_VERSION})`
+		);
+	}
+	return {
+		version: CHECKPOINT_VERSION,
+		status: checkpoint.status ?? "interrupted",
+		step: checkpoint.step ?? 0,
+		maxSteps: checkpoint.maxSteps ?? 25,
+		input: checkpoint.input ?? "",
+		pendingCalls: checkpoint.pendingCalls,
+		partialText: checkpoint.partialText ?? "",
+		updatedAt: checkpoint.updatedAt ?? 0,
+	};
+}
+
+export const isResumable = (checkpoint: AgentCheckpoint | null | undefined): checkpoint is AgentCheckpoint =>
+	!!checkpoint && checkpoint.status !== "completed";
@@ -0,0 +1,23 @@
+import { runAgent } from "./agent";
+import type { AgentCheckpoint, PendingCallResolver } from "./checkpoint-format";
+import type { AgentGenerate, AgentStreamEvent, Callable, Message, RunAgentOptions, ToolContext } from "./types";
+
+export type ResumeAgentOptions = RunAgentOptions & {
+	resolvePendingCall?: PendingCallResolver;
+};
+
+export function resumeAgent(
+	checkpoint: AgentCheckpoint,
+	messages: Message[],
+	generate: AgentGenerate,
+	callables: Callable[] = [],
+	context?: Partial<ToolContext>,
+	signal?: AbortSignal,
+	options: ResumeAgentOptions = {}
+): AsyncGenerator<AgentStreamEvent, void, void> {
+	const { resolvePendingCall, ...runOptions } = options;
+	return runAgent(messages, generate, checkpoint.input, callables, checkpoint.maxSteps, context, signal, {
+		...runOptions,
+		resume: { checkpoint, resolvePendingCall },
+	});
+}
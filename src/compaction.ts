@@ -0,0 +1,339 @@
+import * as E from "fp-ts/lib/Either.js";
+import type { AgentGenerate, Message, TokenCounter, ToolDefinition, UsageEvent } from "./types";
+
+export type CompactionStrategyName = "truncate" | "summarize";
+
+export type CompactionContext = {
+	generate: AgentGenerate;
+	signal?: AbortSignal;
+	tokenCounter?: TokenCounter;
+	model?: string;
+	targetTokens?: number;
+	pendingMessages?: Message[];
+	tools?: ToolDefinition[];
+	onUsage?: (event: UsageEvent) => void;
+};
+
+export type CompactionStrategy = {
+	name: string;
+	compact: (messages: Message[], ctx: CompactionContext) => Promise<Message[]> | Message[];
+};
+
+export type CompactionOption = CompactionStrategyName | CompactionStrategy | CompactionStrategy[];
+
+export type CompactionResult = {
+	messages: Message[];
+	strategy: string;
+	applied: string[];
+	error?: Error;
+};
+
+const DEFAULT_KEEP_SEGMENTS = 3;
+const DEFAULT_MAX_TOOL_OUTPUT_CHARS = 4_000;
+const SUMMARY_PREFIX = "Summary of the earlier conversation:";
+const SUMMARY_PROMPT = [
+	"You condense conversation history for a browser-based code agent.",
+	"Summarize the transcript below so the agent can continue the work without it.",
+	"Keep user goals, decisions, constraints, names, selectors and the results of tool calls.",
+	"Drop chit-chat and repeated content. Reply with the summary only.",
+].join("\n");
+const TRANSCRIPT_ITEM_LIMIT = 2_000;
+
+const toError = (error: unknown): Error =>
+	error instanceof Error ? error : new Error(String(error));
+
+const summaryMessages = new WeakSet<Message>();
+const pinnedMessages = new WeakSet<Message>();
+
+export function pinMessage<T extends Message>(message: T): T {
+	pinnedMessages.add(message);
+	return message;
+}
+
+export function unpinMessage(message: Message): void {
+	pinnedMessages.delete(message);
+}
+
+export function isPinnedMessage(message: Message): boolean {
+	return pinnedMessages.has(message);
+}
+
+export function markSummaryMessage<T extends Message>(message: T): T {
+	summaryMessages.add(message);
+	return message;
+}
+
+export function isSummaryMessage(message: Message): boolean {
+	return summaryMessages.has(message);
+}
+
+export function getMessageRole(message: Message): string | undefined {
+	if ("role" in message && typeof message.role === "string") {
+		return message.role;
+	}
+	const messageType = (message as { type?: unknown }).type;
+	if (messageType === "message") {
+		const role = (message as { role?: unknown }).role;
+		return typeof role === "string" ? role : undefined;
+	}
+	return undefined;
+}
+
+export function splitUserSegments(messages: Message[]): { head: Message[]; segments: Message[][] } {
+	const firstUserIndex = messages.findIndex((message) => getMessageRole(message) === "user");
+	if (firstUserIndex === -1) {
+		return { head: messages, segments: [] };
+	}
+	const head = messages.slice(0, firstUserIndex);
+	const segments: Message[][] = [];
+	let current: Message[] | null = null;
+	for (let i = firstUserIndex; i < messages.length; i += 1) {
+		const message = messages[i];
+		const role = getMessageRole(message);
+		if (role === "user") {
+			if (current && current.length > 0) {
+				segments.push(current);
+			}
+			current = [message];
+			continue;
+		}
+		if (current) {
+			current.push(message);
+		}
+	}
+	if (current && current.length > 0) {
+		segments.push(current);
+	}
+	return { head, segments };
+}
+
+function callIdOf(message: Message): string | undefined {
+	if ("type" in message && (message.type === "function_call" || message.type === "function_call_output")) {
+		return message.call_id;
+	}
+	return undefined;
+}
+
+function keepPinned(dropped: Message[]): Message[] {
+	const pinnedCallIds = new Set<string>();
+	for (const message of dropped) {
+		const callId = callIdOf(message);
+		if (callId && isPinnedMessage(message)) {
+			pinnedCallIds.add(callId);
+		}
+	}
+	return dropped.filter((message) => {
+		const callId = callIdOf(message);
+		return isPinnedMessage(message) || (!!callId && pinnedCallIds.has(callId));
+	});
+}
+
+function dropSegments(messages: Message[], keepHead: number, keepTail: number): Message[] {
+	const { head, segments } = splitUserSegments(messages);
+	if (segments.length <= keepHead + keepTail) {
+		return messages;
+	}
+	const dropped = segments.slice(keepHead, segments.length - keepTail).flat();
+	return [
+		...head,
+		...segments.slice(0, keepHead).flat(),
+		...keepPinned(dropped),
+		...segments.slice(segments.length - keepTail).flat(),
+	];
+}
+
+function clip(text: string, limit: number): string {
+	return text.length <= limit ? text : `${text.slice(0, limit)}... (${text.length - limit} more chars)`;
+}
+
+function contentToText(content: unknown): string {
+	if (typeof content === "string") {
+		return content;
+	}
+	if (Array.isArray(content)) {
+		return content
+			.map((part) => (part && typeof part === "object" && "text" in part ? String(part.text) : ""))
+			.join("");
+	}
+	return JSON.stringify(content ?? "");
+}
+
+function transcriptLine(message: Message): string {
+	const role = getMessageRole(message);
+	if (role) {
+		const content = (message as { content?: unknown }).content;
+		return `${role}: ${clip(contentToText(content), TRANSCRIPT_ITEM_LIMIT)}`;
+	}
+	if ("type" in message && message.type === "function_call") {
+		return `tool call ${message.name}(${clip(message.arguments, TRANSCRIPT_ITEM_LIMIT)})`;
+	}
+	if ("type" in message && message.type === "function_call_output") {
+		return `tool result: ${clip(contentToText(message.output), TRANSCRIPT_ITEM_LIMIT)}`;
+	}
+	return clip(JSON.stringify(message), TRANSCRIPT_ITEM_LIMIT);
+}
+
+async function generateSummary(
+	transcript: string,
+	generate: AgentGenerate,
+	signal?: AbortSignal,
+	onUsage?: (event: UsageEvent) => void
+): Promise<E.Either<Error, string>> {
+	try {
+		const stream = await generate(
+			[
+				{ role: "system", content: SUMMARY_PROMPT },
+				{ role: "user", content: transcript },
+			],
+			undefined,
+			signal
+		);
+		let buffer = "";
+		let finalText: string | null = null;
+		for await (const event of stream) {
+			if (E.isLeft(event)) {
+				return event;
+			}
+			if (event.right.type === "message.delta") {
+				buffer += event.right.delta;
+			}
+			if (event.right.type === "message") {
+				finalText = event.right.content;
+			}
+			if (event.right.type === "usage") {
+				onUsage?.(event.right);
+			}
+		}
+		const summary = (finalText ?? buffer).trim();
+		return summary ? E.right(summary) : E.left(new Error("Summary response was empty."));
+	} catch (error) {
+		return E.left(toError(error));
+	}
+}
+
+export function slidingWindowStrategy(options: { keepSegments?: number } = {}): CompactionStrategy {
+	const keepSegments = options.keepSegments ?? DEFAULT_KEEP_SEGMENTS;
+	return {
+		name: "slidingWindow",
+		compact: (messages) => dropSegments(messages, 0, keepSegments),
+	};
+}
+
+export function trimMiddleStrategy(options: { keepHead?: number; keepTail?: number } = {}): CompactionStrategy {
+	const keepHead = options.keepHead ?? 1;
+	const keepTail = options.keepTail ?? DEFAULT_KEEP_SEGMENTS - 1;
+	return {
+		name: "trimMiddle",
+		compact: (messages) => dropSegments(messages, keepHead, keepTail),
+	};
+}
+
+export function truncateToolOutputsStrategy(options: { maxChars?: number } = {}): CompactionStrategy {
+	const maxChars = options.maxChars ?? DEFAULT_MAX_TOOL_OUTPUT_CHARS;
+	return {
+		name: "truncateToolOutputs",
+		compact: (messages) => {
+			let changed = false;
+			const next = messages.map((message): Message => {
+				if (
+					!("type" in message) ||
+					message.type !== "function_call_output" ||
+					typeof message.output !== "string" ||
+					message.output.length <= maxChars ||
+					isPinnedMessage(message)
+				) {
+					return message;
+				}
+				changed = true;
+				const removed = message.output.length - maxChars;
+				return {
+					...message,
+					output: `${message.output.slice(0, maxChars)}\n[truncated ${removed} chars during compaction]`,
+				};
+			});
+			return changed ? next : messages;
+		},
+	};
+}
+
+export function summarizeStrategy(options: { keepSegments?: number } = {}): CompactionStrategy {
+	const keepSegments = options.keepSegments ?? DEFAULT_KEEP_SEGMENTS;
+	return {
+		name: "summarize",
+		compact: async (messages, ctx) => {
+			const { head, segments } = splitUserSegments(messages);
+			if (segments.length <= keepSegments) {
+				return messages;
+			}
+			const previousSummaries = head.filter(isSummaryMessage);
+			const baseHead = head.filter((message) => !isSummaryMessage(message));
+			const dropped = segments.slice(0, -keepSegments).flat();
+			const pinned = keepPinned(dropped);
+			const summarized = [...previousSummaries, ...dropped.filter((message) => !pinned.includes(message))];
+			const transcript = summarized.map(transcriptLine).join("\n");
+			const summary = await generateSummary(transcript, ctx.generate, ctx.signal, ctx.onUsage);
+			if (E.isLeft(summary)) {
+				throw summary.left;
+			}
+			const summaryMessage: Message = { role: "system", content: `${SUMMARY_PREFIX}\n${summary.right}` };
+			markSummaryMessage(summaryMessage);
+			return [...baseHead, summaryMessage, ...pinned, ...segments.slice(-keepSegments).flat()];
+		},
+	};
+}
+
+const truncatePreset = (): CompactionStrategy => ({ ...slidingWindowStrategy(), name: "truncate" });
+
+function resolveStrategies(option: CompactionOption): CompactionStrategy[] {
+	if (option === "truncate") {
+		return [truncatePreset()];
+	}
+	if (option === "summarize") {
+		return [summarizeStrategy(), truncatePreset()];
+	}
+	return Array.isArray(option) ? option : [option];
+}
+
+export function projectRequestMessages(
+	messages: Message[],
+	request: Pick<CompactionContext, "pendingMessages" | "tools">
+): Message[] {
+	const tools: Message[] = request.tools?.length ? [{ role: "system", content: JSON.stringify(request.tools) }] : [];
+	return [...messages, ...(request.pendingMessages ?? []), ...tools];
+}
+
+async function fitsTarget(messages: Message[], ctx: CompactionContext): Promise<boolean> {
+	if (!ctx.tokenCounter || ctx.targetTokens === undefined) {
+		return false;
+	}
+	const count = await Promise.resolve(ctx.tokenCounter(projectRequestMessages(messages, ctx), ctx.model));
+	return count < ctx.targetTokens;
+}
+
+export async function compactMessages(
+	messages: Message[],
+	option: CompactionOption,
+	ctx: CompactionContext
+): Promise<CompactionResult> {
+	let current = messages;
+	let strategy = "";
+	let error: Error | undefined;
+	const applied: string[] = [];
+	for (const candidate of resolveStrategies(option)) {
+		try {
+			const next = await Promise.resolve(candidate.compact(current, ctx));
+			if (next !== current) {
+				current = next;
+				strategy = candidate.name;
+				applied.push(candidate.name);
+			}
+		} catch (caught) {
+			error = toError(caught);
+			continue;
+		}
+		if (strategy && (await fitsTarget(current, ctx))) {
+			break;
+		}
+	}
+	return { messages: current, strategy, applied, ...(error ? { error } : {}) };
+}
@@ -0,0 +1,227 @@
+import { createAgentMessages } from "./agent";
+import type { Message } from "./types";
+
+export type ConversationBranch = {
+	id: string;
+	name: string;
+	active: boolean;
+	messageCount: number;
+	forkedFrom?: string;
+	createdAt: number;
+	updatedAt: number;
+};
+
+export type ConversationTreeOptions = {
+	messages?: Message[];
+	viewRoot?: Element;
+	now?: () => number;
+};
+
+export type ViewRestoreOptions = {
+	restoreView?: boolean;
+};
+
+export type ForkOptions = ViewRestoreOptions & {
+	name?: string;
+	switchTo?: boolean;
+};
+
+export type ConversationTree = {
+	messages: Message[];
+	sync: () => void;
+	branches: () => ConversationBranch[];
+	activeBranch: () => ConversationBranch;
+	fork: (index: number, options?: ForkOptions) => ConversationBranch;
+	switchTo: (branchId: string, options?: ViewRestoreOptions) => ConversationBranch;
+	rewind: (index: number, options?: ViewRestoreOptions) => ConversationBranch;
+	deleteBranch: (branchId: string) => void;
+};
+
+type MessageNode = {
+	id: string;
+	parentId: string | null;
+	message: Message;
+	view?: string;
+};
+
+type BranchRecord = {
+	id: string;
+	name: string;
+	headId: string | null;
+	forkedFrom?: string;
+	createdAt: number;
+	updatedAt: number;
+};
+
+const isUserMessage = (message: Message | undefined): boolean =>
+	!!message && "role" in message && message.role === "user";
+
+export function createConversationTree(options: ConversationTreeOptions = {}): ConversationTree {
+	const now = options.now ?? Date.now;
+	const viewRoot = options.viewRoot;
+	const nodes = new Map<string, MessageNode>();
+	const branches = new Map<string, BranchRecord>();
+	const rootView = viewRoot?.innerHTML;
+	const messages: Message[] = options.messages ?? createAgentMessages();
+	let nodeCounter = 0;
+	let branchCounter = 0;
+
+	const addNode = (message: Message, parentId: string | null): MessageNode => {
+		nodeCounter += 1;
+		const node: MessageNode = { id: `m${nodeCounter}`, parentId, message };
+		nodes.set(node.id, node);
+		return node;
+	};
+	const addBranch = (name: string | undefined, headId: string | null, forkedFrom?: string): BranchRecord => {
+		branchCounter += 1;
+		const timestamp = now();
+		const branch: BranchRecord = {
+			id: `b${branchCounter}`,
+			name: name ?? (branchCounter === 1 ? "main" : `branch ${branchCounter}`),
+			headId,
+			forkedFrom,
+			createdAt: timestamp,
+			updatedAt: timestamp,
+		};
+		branches.set(branch.id, branch);
+		return branch;
+	};
+	const pathTo = (headId: string | null): MessageNode[] => {
+		const path: MessageNode[] = [];
+		let node = headId ? nodes.get(headId) : undefined;
+		while (node) {
+			path.push(node);
+			node = node.parentId ? nodes.get(node.parentId) : undefined;
+		}
+		return path.reverse();
+	};
+	const collectGarbage = () => {
+		const reachable = new Set<string>();
+		for (const branch of branches.values()) {
+			for (const node of pathTo(branch.headId)) {
+				reachable.add(node.id);
+			}
+		}
+		for (const id of [...nodes.keys()]) {
+			if (!reachable.has(id)) {
+				nodes.delete(id);
+			}
+		}
+	};
+
+	let parentId: string | null = null;
+	for (const message of messages) {
+		parentId = addNode(message, parentId).id;
+	}
+	let active = addBranch(undefined, parentId);
+
+	const describe = (branch: BranchRecord): ConversationBranch => ({
+		id: branch.id,
+		name: branch.name,
+		active: branch === active,
+		messageCount: pathTo(branch.headId).length,
+		...(branch.forkedFrom ? { forkedFrom: branch.forkedFrom } : {}),
+		createdAt: branch.createdAt,
+		updatedAt: branch.updatedAt,
+	});
+	const sync = () => {
+		const path = pathTo(active.headId);
+		let common = 0;
+		while (common < path.length && common < messages.length && path[common].message === messages[common]) {
+			common += 1;
+		}
+		if (common === path.length && common === messages.length) {
+			const head = active.headId ? nodes.get(active.headId) : undefined;
+			if (viewRoot && head && head.view === undefined) {
+				head.view = viewRoot.innerHTML;
+			}
+			return;
+		}
+		let headId = common > 0 ? path[common - 1].id : null;
+		for (const message of messages.slice(common)) {
+			headId = addNode(message, headId).id;
+		}
+		active.headId = headId;
+		active.updatedAt = now();
+		if (viewRoot && headId) {
+			(nodes.get(headId) as MessageNode).view = viewRoot.innerHTML;
+		}
+		collectGarbage();
+	};
+	const viewAt = (headId: string | null): string | undefined => {
+		const path = pathTo(headId);
+		for (let index = path.length - 1; index >= 0; index -= 1) {
+			if (path[index].view !== undefined) {
+				return path[index].view;
+			}
+		}
+		return rootView;
+	};
+	const load = (restoreView: boolean) => {
+		messages.splice(0, messages.length, ...pathTo(active.headId).map((node) => node.message));
+		const view = restoreView ? viewAt(active.headId) : undefined;
+		if (viewRoot && view !== undefined) {
+			viewRoot.innerHTML = view;
+		}
+	};
+	const checkRestore = (restoreView: boolean | undefined) => {
+		if (restoreView && !viewRoot) {
+			throw new Error("Cannot restore the view: the conversation tree has no viewRoot");
+		}
+	};
+	const headBefore = (index: number): string | null => {
+		if (!isUserMessage(messages[index])) {
+			throw new Error(`Message ${index} is not a user message; branches start at user messages`);
+		}
+		return index > 0 ? pathTo(active.headId)[index - 1].id : null;
+	};
+	const requireBranch = (branchId: string): BranchRecord => {
+		const branch = branches.get(branchId);
+		if (!branch) {
+			throw new Error(`Unknown branch: ${branchId}`);
+		}
+		return branch;
+	};
+
+	return {
+		messages,
+		sync,
+		branches: () => [...branches.values()].map(describe),
+		activeBranch: () => describe(active),
+		fork: (index, forkOptions = {}) => {
+			checkRestore(forkOptions.restoreView);
+			sync();
+			const branch = addBranch(forkOptions.name, headBefore(index), active.id);
+			if (forkOptions.switchTo ?? true) {
+				active = branch;
+				load(forkOptions.restoreView ?? false);
+			}
+			return describe(branch);
+		},
+		switchTo: (branchId, switchOptions = {}) => {
+			const branch = requireBranch(branchId);
+			checkRestore(switchOptions.restoreView);
+			sync();
+			active = branch;
+			load(switchOptions.restoreView ?? false);
+			return describe(branch);
+		},
+		rewind: (index, rewindOptions = {}) => {
+			checkRestore(rewindOptions.restoreView);
+			sync();
+			active.headId = headBefore(index);
+			active.updatedAt = now();
+			load(rewindOptions.restoreView ?? false);
+			collectGarbage();
+			return describe(active);
+		},
+		deleteBranch: (branchId) => {
+			const branch = requireBranch(branchId);
+			if (branch === active) {
+				throw new Error("Cannot delete the active branch; switch to another branch first");
+			}
+			branches.delete(branchId);
+			collectGarbage();
+		},
+	};
+}
@@ -0,0 +1,308 @@
+export type DomUndoScope = "call" | "step" | "run";
+
+export type DomChangeSummary = {
+	added: number;
+	removed: number;
+	changed: number;
+};
+
+export type DomTransactionLabel = {
+	callId?: string;
+	name?: string;
+	depth?: number;
+};
+
+export type DomTransaction = {
+	id: string;
+	runId: string;
+	step: number;
+	depth: number;
+	callId?: string;
+	name?: string;
+	summary: DomChangeSummary;
+};
+
+export type DomHistoryOptions = {
+	MutationObserver?: typeof MutationObserver;
+	limit?: number;
+};
+
+export type DomHistory = {
+	root: Node;
+	startRun: () => string;
+	startStep: () => number;
+	begin: (label?: DomTransactionLabel) => void;
+	commit: () => DomTransaction | null;
+	undo: (scope?: DomUndoScope) => DomTransaction[];
+	redo: (scope?: DomUndoScope) => DomTransaction[];
+	canUndo: () => boolean;
+	canRedo: () => boolean;
+	transactions: () => DomTransaction[];
+	clear: () => void;
+	disconnect: () => void;
+};
+
+type DomChange =
+	| { kind: "childList"; target: Node; added: Node[]; removed: Node[]; previousSibling: Node | null; nextSibling: Node | null }
+	| { kind: "attributes"; target: Element; name: string; namespace: string | null; oldValue: string | null; newValue?: string | null }
+	| { kind: "characterData"; target: CharacterData; oldValue: string | null; newValue?: string };
+
+type HistoryEntry = {
+	transaction: DomTransaction;
+	changes: DomChange[];
+};
+
+const DEFAULT_HISTORY_LIMIT = 100;
+
+const OBSERVER_INIT: MutationObserverInit = {
+	subtree: true,
+	childList: true,
+	attributes: true,
+	attributeOldValue: true,
+	characterData: true,
+	characterDataOldValue: true,
+};
+
+function toChange(record: MutationRecord): DomChange {
+	switch (record.type) {
+		case "attributes":
+			return {
+				kind: "attributes",
+				target: record.target as Element,
+				name: record.attributeName ?? "",
+				namespace: record.attributeNamespace,
+				oldValue: record.oldValue,
+			};
+		case "characterData":
+			return { kind: "characterData", target: record.target as CharacterData, oldValue: record.oldValue };
+		default:
+			return {
+				kind: "childList",
+				target: record.target,
+				added: Array.from(record.addedNodes),
+				removed: Array.from(record.removedNodes),
+				previousSibling: record.previousSibling,
+				nextSibling: record.nextSibling,
+			};
+	}
+}
+
+function summarize(changes: DomChange[]): DomChangeSummary {
+	const changedTargets = new Set<Node>();
+	let added = 0;
+	let removed = 0;
+	for (const change of changes) {
+		if (change.kind === "childList") {
+			added += change.added.length;
+			removed += change.removed.length;
+		} else {
+			changedTargets.add(change.target);
+		}
+	}
+	return { added, removed, changed: changedTargets.size };
+}
+
+function insertionPoint(change: Extract<DomChange, { kind: "childList" }>): Node | null {
+	if (change.nextSibling?.parentNode === change.target) {
+		return change.nextSibling;
+	}
+	if (change.previousSibling?.parentNode === change.target) {
+		return change.previousSibling.nextSibling;
+	}
+	return null;
+}
+
+function detach(target: Node, nodes: Node[]): void {
+	for (const node of nodes) {
+		if (node.parentNode === target) {
+			target.removeChild(node);
+		}
+	}
+}
+
+function setAttribute(target: Element, name: string, namespace: string | null, value: string | null | undefined): void {
+	if (value === null || value === undefined) {
+		target.removeAttributeNS(namespace, name);
+	} else {
+		target.setAttributeNS(namespace, name, value);
+	}
+}
+
+function revert(change: DomChange): void {
+	switch (change.kind) {
+		case "attributes":
+			change.newValue = change.target.getAttributeNS(change.namespace, change.name);
+			setAttribute(change.target, change.name, change.namespace, change.oldValue);
+			return;
+		case "characterData":
+			change.newValue = change.target.data;
+			change.target.data = change.oldValue ?? "";
+			return;
+		case "childList": {
+			detach(change.target, change.added);
+			const reference = insertionPoint(change);
+			for (const node of change.removed) {
+				change.target.insertBefore(node, reference);
+			}
+		}
+	}
+}
+
+function reapply(change: DomChange): void {
+	switch (change.kind) {
+		case "attributes":
+			setAttribute(change.target, change.name, change.namespace, change.newValue);
+			return;
+		case "characterData":
+			change.target.data = change.newValue ?? "";
+			return;
+		case "childList": {
+			detach(change.target, change.removed);
+			const reference = insertionPoint(change);
+			for (const node of change.added) {
+				change.target.insertBefore(node, reference);
+			}
+		}
+	}
+}
+
+const sameGroup = (scope: DomUndoScope, a: DomTransaction, b: DomTransaction): boolean => {
+	switch (scope) {
+		case "call":
+			return a === b;
+		case "step":
+			return a.runId === b.runId && a.step === b.step;
+		case "run":
+			return a.runId === b.runId;
+	}
+};
+
+function takeGroup(stack: HistoryEntry[], scope: DomUndoScope): HistoryEntry[] {
+	const top = stack[stack.length - 1];
+	if (!top) {
+		return [];
+	}
+	const group: HistoryEntry[] = [];
+	while (stack.length > 0 && sameGroup(scope, top.transaction, stack[stack.length - 1].transaction)) {
+		group.push(stack.pop() as HistoryEntry);
+	}
+	return group;
+}
+
+export function createDomHistory(root: Node, options: DomHistoryOptions = {}): DomHistory {
+	const Observer =
+		options.MutationObserver ??
+		root.ownerDocument?.defaultView?.MutationObserver ??
+		(typeof MutationObserver !== "undefined" ? MutationObserver : undefined);
+	if (!Observer) {
+		throw new Error("MutationObserver is not available; pass options.MutationObserver");
+	}
+	const limit = options.limit ?? DEFAULT_HISTORY_LIMIT;
+	const done: HistoryEntry[] = [];
+	let undone: HistoryEntry[] = [];
+	let open: { label: DomTransactionLabel; changes: DomChange[] } | null = null;
+	let runCounter = 0;
+	let transactionCounter = 0;
+	let runId = "run-0";
+	let step = 0;
+
+	const observer = new Observer((records) => {
+		if (open) {
+			open.changes.push(...records.map(toChange));
+		}
+	});
+	observer.observe(root, OBSERVER_INIT);
+	const discardPending = () => {
+		observer.takeRecords();
+	};
+	const assertIdle = (action: string) => {
+		if (open) {
+			throw new Error(`Cannot ${action} while a tool call is recording DOM changes`);
+		}
+	};
+	const replay = (entries: HistoryEntry[], apply: (entry: HistoryEntry) => void) => {
+		discardPending();
+		for (const entry of entries) {
+			apply(entry);
+		}
+		discardPending();
+		return entries.map((entry) => entry.transaction);
+	};
+
+	return {
+		root,
+		startRun: () => {
+			runCounter += 1;
+			runId = `run-${runCounter}`;
+			step = 0;
+			return runId;
+		},
+		startStep: () => {
+			step += 1;
+			return step;
+		},
+		begin: (label = {}) => {
+			assertIdle("begin a transaction");
+			discardPending();
+			open = { label, changes: [] };
+		},
+		commit: () => {
+			if (!open) {
+				return null;
+			}
+			const { label, changes } = open;
+			changes.push(...observer.takeRecords().map(toChange));
+			open = null;
+			if (changes.length === 0) {
+				return null;
+			}
+			transactionCounter += 1;
+			const transaction: DomTransaction = {
+				id: `dom-${transactionCounter}`,
+				runId,
+				step,
+				depth: label.depth ?? 0,
+				...(label.callId ? { callId: label.callId } : {}),
+				...(label.name ? { name: label.name } : {}),
+				summary: summarize(changes),
+			};
+			done.push({ transaction, changes });
+			if (done.length > limit) {
+				done.splice(0, done.length - limit);
+			}
+			undone = [];
+			return transaction;
+		},
+		undo: (scope = "call") => {
+			assertIdle("undo");
+			const group = takeGroup(done, scope);
+			undone.push(...group);
+			return replay(group, (entry) => {
+				for (let index = entry.changes.length - 1; index >= 0; index -= 1) {
+					revert(entry.changes[index]);
+				}
+			});
+		},
+		redo: (scope = "call") => {
+			assertIdle("redo");
+			const group = takeGroup(undone, scope);
+			done.push(...group);
+			return replay(group, (entry) => {
+				for (const change of entry.changes) {
+					reapply(change);
+				}
+			});
+		},
+		canUndo: () => done.length > 0,
+		canRedo: () => undone.length > 0,
+		transactions: () => done.map((entry) => entry.transaction),
+		clear: () => {
+			done.length = 0;
+			undone = [];
+		},
+		disconnect: () => {
+			observer.disconnect();
+			open = null;
+		},
+	};
+}
@@ -0,0 +1,55 @@
+const ELEMENT_NODE = 1;
+const DOCUMENT_NODE = 9;
+const DOCUMENT_FRAGMENT_NODE = 11;
+
+export const isNode = (value: unknown): value is Node =>
+	typeof value === "object" && value !== null && typeof (value as Node).nodeType === "number" && "nodeName" in value;
+
+export function nodeToString(node: Node | null): string {
+	if (!node) {
+		return "";
+	}
+	if (node.nodeType === DOCUMENT_FRAGMENT_NODE) {
+		return Array.from(node.childNodes)
+			.map((child) => nodeToString(child))
+			.join("");
+	}
+	if (node.nodeType === DOCUMENT_NODE) {
+		const doc = node as Document;
+		return doc.documentElement?.outerHTML ?? "";
+	}
+	if (node.nodeType === ELEMENT_NODE) {
+		return (node as Element).outerHTML;
+	}
+	return node.textContent ?? "";
+}
+
+export function nodeToXPath(node: Node, root: Node): string {
+	if (node === root) {
+		return "/";
+	}
+	const segments: string[] = [];
+	let current: Node | null = node;
+	while (current && current !== root) {
+		if (current.nodeType !== ELEMENT_NODE) {
+			current = current.parentNode;
+			continue;
+		}
+		const element = current as Element;
+		const tag = element.tagName.toLowerCase();
+		let index = 1;
+		let sibling = element.previousElementSibling;
+		while (sibling) {
+			if (sibling.tagName.toLowerCase() === tag) {
+				index += 1;
+			}
+			sibling = sibling.previousElementSibling;
+		}
+		segments.push(`${tag}[${index}]`);
+		current = element.parentNode;
+	}
+	if (current !== root) {
+		return "/";
+	}
+	return `/${segments.reverse().join("/")}`;
+}
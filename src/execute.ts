@@ -8,19 +8,28 @@ import type {
 	Message,
 	RunAgentOptions,
 	SkillCallArgs,
+	ToolApprovalDecision,
+	ToolApprovalHandler,
+	ToolApprovalRequest,
+	ToolApprovalStatus,
 	ToolCall,
 	ToolContext,
 	ToolEnd,
 	ToolStart,
 } from "./types";
+import { ScriptError, type CapturedError, type ConsoleEntry } from "./capture";
+import { SchemaValidationError, formatSchemaIssues, type SchemaIssue } from "./schema";
+import { toSerializable } from "./serialize";
 import type { Skill } from "./skill";
-import type { Tool } from "./tools";
+import { ToolTimeoutError, type Tool } from "./tools";
 
 export type CallTarget =
 	| { kind: "tool"; tool: Tool }
 	| { kind: "skill"; skill: Skill; input: SkillCallArgs; depth: number };
 
-export type StreamOutcome = "continue" | "stop" | "error";
+export type PreparedCall = { call: ToolCall; args: unknown; target: CallTarget };
+
+export type StreamOutcome = "continue" | "stop" | "error" | "failed";
 
 export type LoopState = {
 	toolCalls: ToolCall[];
@@ -85,6 +94,10 @@ export const applyStreamEvent = (
 			return { outcome: "continue", outputs: [] };
 		case "tool.end":
 		case "artifact":
+		case "usage":
+		case "retry":
+		case "model.selected":
+		case "warning":
 			return { outcome: "continue", outputs: [event] };
 		case "done":
 			return { outcome: "stop", outputs: [] };
@@ -104,7 +117,7 @@ export const flushThinking = (state: LoopState): AgentEvent | null => {
 export const finalContent = (state: LoopState): string => state.finalText ?? state.textBuffer;
 
 export function addToolOutput(messages: Message[], callId: string, output: unknown): void {
-	const serialized = typeof output === "string" ? output : JSON.stringify(output ?? null);
+	const serialized = typeof output === "string" ? output : JSON.stringify(toSerializable(output ?? null)) ?? "null";
 	messages.push({
 		type: "function_call_output",
 		call_id: callId,
@@ -126,6 +139,15 @@ export function addToolCall(messages: Message[], call: ToolCall): void {
 	});
 }
 
+function replaceToolCallArgs(messages: Message[], call: ToolCall): void {
+	const args = typeof call.args === "string" ? call.args : JSON.stringify(call.args ?? {});
+	messages.forEach((message, index) => {
+		if ("type" in message && message.type === "function_call" && message.call_id === call.id) {
+			messages[index] = { ...message, arguments: args };
+		}
+	});
+}
+
 const toolStartEvent = (call: ToolCall, args: unknown, target: CallTarget): ToolStart =>
 	target.kind === "skill"
 		? {
@@ -139,10 +161,139 @@ const toolStartEvent = (call: ToolCall, args: unknown, target: CallTarget): Tool
 		}
 		: { type: "tool.start", name: call.name, args, callId: call.id };
 
-const toolEndEvent = (call: ToolCall, result: unknown, target: CallTarget): ToolEnd =>
-	target.kind === "skill"
-		? { type: "tool.end", name: call.name, result, isSkill: true, depth: target.depth }
-		: { type: "tool.end", name: call.name, result };
+const toolEndEvent = (call: ToolCall, result: unknown, target: CallTarget, isError?: boolean): ToolEnd => {
+	const errorFlag = isError ? { isError } : {};
+	return target.kind === "skill"
+		? { type: "tool.end", name: call.name, result, isSkill: true, depth: target.depth, ...errorFlag }
+		: { type: "tool.end", name: call.name, result, ...errorFlag };
+};
+
+const STACK_SUMMARY_LINES = 5;
+
+export type ToolErrorPayload = {
+	error: {
+		name: string;
+		message: string;
+		stack?: string;
+		issues?: SchemaIssue[];
+		logs?: ConsoleEntry[];
+		errors?: CapturedError[];
+	};
+};
+
+export const describeToolError = (error: Error): ToolErrorPayload => {
+	if (error instanceof SchemaValidationError) {
+		return { error: { name: error.name, message: error.message, issues: error.issues } };
+	}
+	const stack = error.stack
+		?.split("\n")
+		.slice(1, STACK_SUMMARY_LINES + 1)
+		.map((line) => line.trim())
+		.filter(Boolean)
+		.join("\n");
+	const captured = error instanceof ScriptError ? { logs: error.logs, errors: error.errors } : {};
+	return { error: { name: error.name, message: error.message, ...(stack ? { stack } : {}), ...captured } };
+};
+
+export const shouldReportToolErrors = (options?: RunAgentOptions): boolean =>
+	(options?.toolErrorPolicy ?? "abort") === "report";
+
+export function reportToolError(
+	call: ToolCall,
+	error: Error,
+	target: CallTarget | null,
+	loopMessages: Message[]
+): ToolEnd {
+	const payload = describeToolError(error);
+	addToolOutput(loopMessages, call.id ?? "tool-call", payload);
+	return target
+		? toolEndEvent(call, payload, target, true)
+		: { type: "tool.end", name: call.name, result: payload, isError: true };
+}
+
+const approvalStatus = (decision: ToolApprovalDecision): ToolApprovalStatus => {
+	switch (decision.kind) {
+		case "approve":
+			return "approved";
+		case "deny":
+			return "denied";
+		case "edit":
+			return "edited";
+	}
+};
+
+export function waitForAbortable<T>(promise: Promise<T>, signal: AbortSignal | undefined): Promise<T> {
+	if (!signal) {
+		return promise;
+	}
+	if (signal.aborted) {
+		return Promise.reject(toError(signal.reason ?? new Error("Aborted.")));
+	}
+	return new Promise<T>((resolve, reject) => {
+		const onAbort = () => reject(toError(signal.reason ?? new Error("Aborted.")));
+		signal.addEventListener("abort", onAbort, { once: true });
+		promise.then(
+			(value) => {
+				signal.removeEventListener("abort", onAbort);
+				resolve(value);
+			},
+			(error) => {
+				signal.removeEventListener("abort", onAbort);
+				reject(error);
+			}
+		);
+	});
+}
+
+export async function* requestApproval(
+	prepared: PreparedCall,
+	depth: number,
+	approve: ToolApprovalHandler,
+	signal: AbortSignal | undefined,
+	resolveTarget: (call: ToolCall, args: unknown) => E.Either<Error, CallTarget>,
+	loopMessages: Message[]
+): AsyncGenerator<AgentStreamEvent, E.Either<Error, PreparedCall | null>, void> {
+	const { call, args, target } = prepared;
+	const request: ToolApprovalRequest = {
+		name: call.name,
+		args,
+		callId: call.id,
+		isSkill: target.kind === "skill",
+		depth,
+	};
+	yield right({ type: "tool.approval", status: "pending", ...request });
+	const decision = await waitForAbortable(Promise.resolve().then(() => approve(request, signal)), signal)
+		.then(E.right)
+		.catch((error) => E.left(toError(error)));
+	if (E.isLeft(decision)) {
+		return decision;
+	}
+	const status = approvalStatus(decision.right);
+	if (decision.right.kind === "deny") {
+		const reason = decision.right.reason;
+		yield right({ type: "tool.approval", status, ...request, reason });
+		addToolOutput(loopMessages, call.id ?? "tool-call", {
+			denied: true,
+			reason: reason ?? "The user denied this call.",
+		});
+		return E.right(null);
+	}
+	if (decision.right.kind === "edit") {
+		const editedArgs = decision.right.args;
+		const editedCall: ToolCall = { ...call, args: editedArgs };
+		yield right({ type: "tool.approval", status, ...request, args: editedArgs });
+		replaceToolCallArgs(loopMessages, editedCall);
+		const editedTarget = resolveTarget(editedCall, editedArgs);
+		if (E.isLeft(editedTarget)) {
+			yield right({ type: "tool.start", name: call.name, args: editedArgs, callId: call.id });
+			yield right(reportToolError(editedCall, editedTarget.left, null, loopMessages));
+			return E.right(null);
+		}
+		return E.right({ call: editedCall, args: editedArgs, target: editedTarget.right });
+	}
+	yield right({ type: "tool.approval", status, ...request });
+	return E.right(prepared);
+}
 
 type SkillRunResult = { output: string; events: AgentEvent[] };
 
@@ -153,7 +304,8 @@ export async function runSkill(
 	maxSteps: number,
 	generate: AgentGenerate,
 	runAgent: RunAgent,
-	basePrompt: string
+	basePrompt: string,
+	options?: RunAgentOptions
 ): Promise<E.Either<Error, SkillRunResult>> {
 	const childCallables = target.skill.callables ?? [];
 	const skillPromptResult = target.skill.buildPrompt(childCallables);
@@ -177,6 +329,7 @@ export async function runSkill(
 				ctx,
 				signal,
 				{
+					...options,
 					skillDepth: target.depth,
 					callableListMessage: null,
 					skipActiveRuns: true,
@@ -197,12 +350,25 @@ export async function runSkill(
 				) {
 					skillEvents.push(event);
 				}
+				if (event.type === "usage" || event.type === "dom.change" || event.type === "tool.approval") {
+					skillEvents.push(event);
+				}
 			}
 			return E.right({ output: skillText, events: skillEvents });
 		})
 	);
 }
 
+export const ABORTED_CALL_OUTPUT = {
+	cancelled: true,
+	reason: "The run was cancelled before this call could finish.",
+};
+
+function abortedCallEnd(call: ToolCall, error: Error, target: CallTarget, loopMessages: Message[]): ToolEnd {
+	addToolOutput(loopMessages, call.id ?? "tool-call", ABORTED_CALL_OUTPUT);
+	return toolEndEvent(call, describeToolError(error), target, true);
+}
+
 export async function* runToolCall(
 	call: ToolCall,
 	args: unknown,
@@ -213,31 +379,177 @@ export async function* runToolCall(
 	generate: AgentGenerate,
 	runAgent: RunAgent,
 	basePrompt: string,
-	loopMessages: Message[]
+	loopMessages: Message[],
+	options?: RunAgentOptions
 ): AsyncGenerator<AgentStreamEvent, StreamOutcome, void> {
 	yield right(toolStartEvent(call, args, target));
 	if (target.kind === "skill") {
-		const result = await runSkill(target, ctx, signal, maxSteps, generate, runAgent, basePrompt);
+		const result = await runSkill(target, ctx, signal, maxSteps, generate, runAgent, basePrompt, options);
 		if (E.isLeft(result)) {
+			if (shouldReportToolErrors(options)) {
+				yield right(reportToolError(call, result.left, target, loopMessages));
+				return "failed";
+			}
 			yield left(result.left);
 			return "error";
 		}
 		for (const event of result.right.events) {
 			yield right(event);
 		}
+		if (signal?.aborted) {
+			yield right(abortedCallEnd(call, toError(signal.reason ?? new Error("Aborted.")), target, loopMessages));
+			return "continue";
+		}
 		yield right(toolEndEvent(call, result.right.output, target));
 		addToolOutput(loopMessages, call.id ?? "tool-call", result.right.output ?? null);
 		return "continue";
 	}
-	const result = await Promise.resolve()
-		.then(() => target.tool.run(args, ctx))
+	if (options?.validateToolArgs !== false) {
+		const issues = target.tool.validateArgs(args);
+		if (issues.length > 0) {
+			yield right({ type: "tool.validation", name: call.name, callId: call.id, phase: "args", issues });
+			const error = new SchemaValidationError(
+				`Invalid arguments for ${call.name}:\n${formatSchemaIssues(issues)}`,
+				issues
+			);
+			yield right(reportToolError(call, error, target, loopMessages));
+			return "failed";
+		}
+	}
+	if (signal?.aborted) {
+		yield right(abortedCallEnd(call, toError(signal.reason ?? new Error("Aborted.")), target, loopMessages));
+		return "continue";
+	}
+	const timeoutMs = target.tool.timeoutMs ?? options?.toolTimeoutMs;
+	const callController = new AbortController();
+	const settleController = new AbortController();
+	let graceTimer: ReturnType<typeof setTimeout> | undefined;
+	const forwardAbort = () => {
+		callController.abort(signal?.reason);
+		graceTimer = setTimeout(() => settleController.abort(signal?.reason), 0);
+	};
+	signal?.addEventListener("abort", forwardAbort, { once: true });
+	const timeOut = (error: ToolTimeoutError) => {
+		callController.abort(error);
+		settleController.abort(error);
+	};
+	const timer =
+		timeoutMs !== undefined ? setTimeout(() => timeOut(new ToolTimeoutError(call.name, timeoutMs)), timeoutMs) : undefined;
+	const result = await waitForAbortable(
+		Promise.resolve().then(() => target.tool.run(args, { ...ctx, signal: callController.signal })),
+		settleController.signal
+	)
 		.then(E.right)
-		.catch((error) => E.left(toError(error)));
+		.catch((error) => E.left(toError(error)))
+		.finally(() => {
+			clearTimeout(timer);
+			clearTimeout(graceTimer);
+			signal?.removeEventListener("abort", forwardAbort);
+		});
 	if (E.isLeft(result)) {
+		if (signal?.aborted && !(result.left instanceof ToolTimeoutError)) {
+			yield right(abortedCallEnd(call, result.left, target, loopMessages));
+			return "continue";
+		}
+		if (result.left instanceof ToolTimeoutError || shouldReportToolErrors(options)) {
+			yield right(reportToolError(call, result.left, target, loopMessages));
+			return "failed";
+		}
 		yield left(result.left);
 		return "error";
 	}
-	yield right(toolEndEvent(call, result.right, target));
-	addToolOutput(loopMessages, call.id ?? "tool-call", result.right ?? null);
+	const resultIssues = result.right === undefined ? [] : target.tool.validateResult(result.right);
+	if (resultIssues.length > 0) {
+		yield right({
+			type: "tool.validation",
+			name: call.name,
+			callId: call.id,
+			phase: "result",
+			issues: resultIssues,
+		});
+	}
+	const formatted = E.tryCatch(
+		() => ({
+			output: target.tool.formatResult(result.right ?? null, {
+				root: ctx.viewRoot,
+				maxTokens: options?.maxToolResultTokens,
+				model: options?.model,
+			}),
+			display: toSerializable(result.right, { root: ctx.viewRoot }),
+		}),
+		toError
+	);
+	if (E.isLeft(formatted)) {
+		if (shouldReportToolErrors(options)) {
+			yield right(reportToolError(call, formatted.left, target, loopMessages));
+			return "failed";
+		}
+		yield left(formatted.left);
+		return "error";
+	}
+	yield right(toolEndEvent(call, formatted.right.display, target));
+	addToolOutput(loopMessages, call.id ?? "tool-call", formatted.right.output);
 	return "continue";
 }
+
+async function drainToolCall(
+	stream: AsyncGenerator<AgentStreamEvent, StreamOutcome, void>
+): Promise<{ events: AgentStreamEvent[]; outcome: StreamOutcome }> {
+	const events: AgentStreamEvent[] = [];
+	while (true) {
+		const { value, done } = await stream.next();
+		if (done) {
+			return { events, outcome: value };
+		}
+		events.push(value);
+		if (E.isLeft(value)) {
+			return { events, outcome: "error" };
+		}
+	}
+}
+
+export const CANCELLED_CALL_OUTPUT = {
+	cancelled: true,
+	reason: "Another call in the same batch failed and the run stopped before this call could finish.",
+};
+
+export async function* runToolBatch(
+	batch: PreparedCall[],
+	runCall: (
+		prepared: PreparedCall,
+		loopMessages: Message[]
+	) => AsyncGenerator<AgentStreamEvent, StreamOutcome, void>,
+	loopMessages: Message[]
+): AsyncGenerator<AgentStreamEvent, StreamOutcome, void> {
+	const results = await Promise.all(
+		batch.map(async (prepared) => {
+			const outputs: Message[] = [];
+			const drained = await drainToolCall(runCall(prepared, outputs));
+			return { ...drained, outputs, prepared };
+		})
+	);
+	const stopped = results.find((result) => result.outcome === "error" || result.outcome === "stop");
+	for (const result of results) {
+		loopMessages.push(...result.outputs);
+		if (stopped && result !== stopped && result.outputs.length === 0) {
+			addToolOutput(loopMessages, result.prepared.call.id ?? "tool-call", CANCELLED_CALL_OUTPUT);
+		}
+	}
+	for (const result of results) {
+		if (result === stopped) {
+			continue;
+		}
+		for (const event of result.events) {
+			if (E.isRight(event)) {
+				yield event;
+			}
+		}
+	}
+	if (stopped) {
+		for (const event of stopped.events) {
+			yield event;
+		}
+		return stopped.outcome;
+	}
+	return results.some((result) => result.outcome === "failed") ? "failed" : "continue";
+}
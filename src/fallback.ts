@@ -0,0 +1,196 @@
+import * as E from "fp-ts/lib/Either.js";
+import type { AgentAdapter } from "./adapters";
+import { contextWindowForModel } from "./models";
+import type {
+	AgentEvent,
+	AgentGenerate,
+	AgentStreamEvent,
+	Message,
+	ModelSkip,
+	TokenCounter,
+	ToolDefinition,
+} from "./types";
+
+const toError = (error: unknown): Error =>
+	error instanceof Error ? error : new Error(String(error));
+const right = (event: AgentEvent): AgentStreamEvent => E.right(event);
+const left = (error: Error): AgentStreamEvent => E.left(error);
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+export type AdapterHealth = {
+	model: string;
+	state: CircuitState;
+	consecutiveFailures: number;
+	openedAt?: number;
+	lastError?: string;
+};
+
+export type FallbackAdapterOptions = {
+	failureThreshold?: number;
+	cooldownMs?: number;
+	shouldFallback?: (error: Error) => boolean;
+	now?: () => number;
+};
+
+export type FallbackAdapter = AgentAdapter & {
+	adapters: AgentAdapter[];
+	health: () => AdapterHealth[];
+	reset: () => void;
+};
+
+const DEFAULT_FAILURE_THRESHOLD = 3;
+const DEFAULT_COOLDOWN_MS = 30_000;
+
+const isAbortError = (error: Error) => error.name === "AbortError" || error.name === "APIUserAbortError";
+
+type Breaker = {
+	consecutiveFailures: number;
+	openedAt?: number;
+	trialInFlight: boolean;
+	lastError?: string;
+};
+
+export function createFallbackAdapter(
+	adapters: AgentAdapter[],
+	options: FallbackAdapterOptions = {}
+): FallbackAdapter {
+	if (!adapters.length) {
+		throw new Error("createFallbackAdapter needs at least one adapter");
+	}
+	const failureThreshold = options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+	const cooldownMs = options.cooldownMs ?? DEFAULT_COOLDOWN_MS;
+	const shouldFallback = options.shouldFallback ?? ((error: Error) => !isAbortError(error));
+	const now = options.now ?? Date.now;
+	let breakers: Breaker[] = adapters.map(() => ({ consecutiveFailures: 0, trialInFlight: false }));
+
+	const stateOf = (breaker: Breaker): CircuitState => {
+		if (breaker.openedAt === undefined) {
+			return "closed";
+		}
+		return now() - breaker.openedAt >= cooldownMs ? "half_open" : "open";
+	};
+	const tryAcquire = (breaker: Breaker): boolean => {
+		const state = stateOf(breaker);
+		if (state === "closed") {
+			return true;
+		}
+		if (state === "half_open" && !breaker.trialInFlight) {
+			breaker.trialInFlight = true;
+			return true;
+		}
+		return false;
+	};
+	const recordSuccess = (breaker: Breaker) => {
+		breaker.consecutiveFailures = 0;
+		breaker.openedAt = undefined;
+		breaker.trialInFlight = false;
+		breaker.lastError = undefined;
+	};
+	const recordFailure = (breaker: Breaker, error: Error) => {
+		breaker.consecutiveFailures += 1;
+		breaker.lastError = error.message;
+		if (breaker.trialInFlight || breaker.consecutiveFailures >= failureThreshold) {
+			breaker.openedAt = now();
+		}
+		breaker.trialInFlight = false;
+	};
+
+	const generate: AgentGenerate = async function* (
+		messages: Message[],
+		tools?: ToolDefinition[],
+		signal?: AbortSignal
+	) {
+		const skipped: ModelSkip[] = [];
+		for (const [index, adapter] of adapters.entries()) {
+			const breaker = breakers[index];
+			if (!tryAcquire(breaker)) {
+				skipped.push({ model: adapter.model, reason: "circuit open" });
+				continue;
+			}
+			try {
+				const selected = right({ type: "model.selected", model: adapter.model, index, skipped: [...skipped] });
+				let committed = false;
+				let failure: Error | null = null;
+				try {
+					for await (const event of await adapter.generate(messages, tools, signal)) {
+						if (E.isLeft(event)) {
+							if (committed) {
+								if (!signal?.aborted) {
+									recordFailure(breaker, event.left);
+								}
+								yield event;
+								return;
+							}
+							failure = event.left;
+							break;
+						}
+						if (!committed && event.right.type !== "retry") {
+							committed = true;
+							recordSuccess(breaker);
+							yield selected;
+						}
+						yield event;
+					}
+				} catch (error) {
+					failure = toError(error);
+					if (committed) {
+						if (!signal?.aborted) {
+							recordFailure(breaker, failure);
+						}
+						yield left(failure);
+						return;
+					}
+				}
+				if (!failure) {
+					if (!committed) {
+						recordSuccess(breaker);
+						yield selected;
+					}
+					return;
+				}
+				if (signal?.aborted || !shouldFallback(failure)) {
+					yield left(failure);
+					return;
+				}
+				recordFailure(breaker, failure);
+				skipped.push({ model: adapter.model, reason: failure.message });
+			} finally {
+				breaker.trialInFlight = false;
+			}
+		}
+		const summary = skipped.map((skip) => `${skip.model}: ${skip.reason}`).join("; ");
+		yield left(new Error(`All models failed (${summary})`));
+	};
+
+	const windows = adapters.map(
+		(adapter) => adapter.contextWindowTokens ?? contextWindowForModel(adapter.model)
+	);
+	const counters = adapters.flatMap((adapter) => (adapter.countTokens ? [adapter.countTokens] : []));
+	const countTokens: TokenCounter | undefined = counters.length
+		? async (messages) => Math.max(...(await Promise.all(counters.map((count) => count(messages)))))
+		: undefined;
+
+	return {
+		model: adapters[0].model,
+		generate,
+		countTokens,
+		contextWindowTokens: Math.min(...windows),
+		modelInfo: adapters[0].modelInfo,
+		adapters,
+		health: () =>
+			adapters.map((adapter, index) => {
+				const breaker = breakers[index];
+				return {
+					model: adapter.model,
+					state: stateOf(breaker),
+					consecutiveFailures: breaker.consecutiveFailures,
+					...(breaker.openedAt !== undefined ? { openedAt: breaker.openedAt } : {}),
+					...(breaker.lastError ? { lastError: breaker.lastError } : {}),
+				};
+			}),
+		reset: () => {
+			breakers = adapters.map(() => ({ consecutiveFailures: 0, trialInFlight: false }));
+		},
+	};
+}
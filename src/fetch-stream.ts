@@ -0,0 +1,278 @@
+import * as E from "fp-ts/lib/Either.js";
+import { responseError, type AgentAdapter } from "./adapters";
+import { contextWindowForModel, getModelInfo } from "./models";
+import { readLines, readSseMessages } from "./sse";
+import { countTokensForModel } from "./tokenizer";
+import type { AgentEvent, AgentStreamEvent, AgentGenerate, Message, TokenCounter, ToolDefinition } from "./types";
+
+const toError = (error: unknown): Error =>
+	error instanceof Error ? error : new Error(String(error));
+const right = (event: AgentEvent): AgentStreamEvent => E.right(event);
+const left = (error: Error): AgentStreamEvent => E.left(error);
+
+export type StreamFormat = "sse" | "ndjson";
+
+export type StreamRequestBody = {
+	model?: string;
+	messages: Message[];
+	tools?: ToolDefinition[];
+};
+
+export type StreamErrorFrame = {
+	type: "error";
+	error: { name?: string; message: string };
+};
+
+export type StreamFrame = AgentEvent | StreamErrorFrame;
+
+export type FetchStreamAdapterOptions = {
+	url: string;
+	model?: string;
+	format?: StreamFormat;
+	headers?: Record<string, string>;
+	body?: Record<string, unknown>;
+	credentials?: RequestCredentials;
+	contextWindowTokens?: number;
+	fetch?: typeof fetch;
+};
+
+const NDJSON_CONTENT_TYPE = "application/x-ndjson";
+const SSE_CONTENT_TYPE = "text/event-stream";
+const DONE_MARKER = "[DONE]";
+
+export function encodeStreamFrame(frame: StreamFrame, format: StreamFormat): string {
+	const json = JSON.stringify(frame);
+	return format === "ndjson" ? `${json}\n` : `data: ${json}\n\n`;
+}
+
+function frameToStreamEvent(data: string): AgentStreamEvent | null {
+	const trimmed = data.trim();
+	if (!trimmed || trimmed === DONE_MARKER) {
+		return null;
+	}
+	let frame: StreamFrame;
+	try {
+		frame = JSON.parse(trimmed) as StreamFrame;
+	} catch (error) {
+		return left(toError(error));
+	}
+	if (frame.type === "error") {
+		const error = new Error(frame.error?.message ?? "Stream error");
+		error.name = frame.error?.name ?? error.name;
+		return left(error);
+	}
+	return right(frame);
+}
+
+function acceptHeader(format?: StreamFormat): string {
+	if (format === "ndjson") {
+		return NDJSON_CONTENT_TYPE;
+	}
+	if (format === "sse") {
+		return SSE_CONTENT_TYPE;
+	}
+	return `${SSE_CONTENT_TYPE}, ${NDJSON_CONTENT_TYPE}`;
+}
+
+function formatFromContentType(contentType: string | null): StreamFormat {
+	return contentType?.includes(NDJSON_CONTENT_TYPE) ? "ndjson" : "sse";
+}
+
+export function createFetchStreamAdapter(options: FetchStreamAdapterOptions): AgentAdapter {
+	const { url, model = "", format, headers, body, credentials, contextWindowTokens, fetch: fetchImpl } = options;
+	const generate: AgentGenerate = async function* (
+		messages: Message[],
+		tools?: ToolDefinition[],
+		signal?: AbortSignal
+	) {
+		const requestBody: StreamRequestBody = {
+			...(body ?? {}),
+			...(model ? { model } : {}),
+			messages,
+			tools,
+		};
+		const response = await (fetchImpl ?? fetch)(url, {
+			method: "POST",
+			headers: {
+				"content-type": "application/json",
+				accept: acceptHeader(format),
+				...(headers ?? {}),
+			},
+			body: JSON.stringify(requestBody),
+			credentials,
+			signal,
+		});
+		if (!response.ok || !response.body) {
+			yield left(await responseError("Stream request", response));
+			return;
+		}
+		const streamFormat = format ?? formatFromContentType(response.headers.get("content-type"));
+		const frames =
+			streamFormat === "ndjson"
+				? readLines(response.body)
+				: (async function* () {
+					for await (const message of readSseMessages(response.body as ReadableStream<Uint8Array>)) {
+						yield message.data;
+					}
+				})();
+		for await (const data of frames) {
+			const event = frameToStreamEvent(data);
+			if (!event) {
+				continue;
+			}
+			yield event;
+			if (E.isLeft(event)) {
+				return;
+			}
+		}
+	};
+	const countTokens: TokenCounter = (messages, selectedModel) =>
+		countTokensForModel(messages, selectedModel ?? model);
+	return {
+		model,
+		generate,
+		countTokens,
+		contextWindowTokens: contextWindowTokens ?? contextWindowForModel(model),
+		modelInfo: model ? getModelInfo(model) : undefined,
+	};
+}
+
+export type NodeRequestLike = AsyncIterable<Uint8Array | string> & {
+	method?: string;
+	headers: Record<string, string | string[] | undefined>;
+};
+
+export type NodeResponseLike = {
+	statusCode: number;
+	writableEnded?: boolean;
+	setHeader: (name: string, value: string) => unknown;
+	write: (chunk: string) => unknown;
+	end: (chunk?: string) => unknown;
+	on?: (event: "close", listener: () => void) => unknown;
+};
+
+export type NodeAgentStreamHandlerOptions = {
+	format?: StreamFormat;
+	maxBodyBytes?: number;
+	tools?: ToolDefinition[];
+	onError?: (error: Error) => void;
+};
+
+const DEFAULT_MAX_BODY_BYTES = 5_000_000;
+
+async function readRequestBody(request: NodeRequestLike, maxBytes: number): Promise<E.Either<Error, string>> {
+	const decoder = new TextDecoder();
+	const encoder = new TextEncoder();
+	let text = "";
+	let size = 0;
+	for await (const chunk of request) {
+		const part = typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true });
+		size += typeof chunk === "string" ? encoder.encode(chunk).byteLength : chunk.byteLength;
+		if (size > maxBytes) {
+			return E.left(new Error(`Request body exceeds ${maxBytes} bytes`));
+		}
+		text += part;
+	}
+	return E.right(text + decoder.decode());
+}
+
+function parseStreamRequest(text: string): E.Either<Error, StreamRequestBody> {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(text);
+	} catch (error) {
+		return E.left(toError(error));
+	}
+	const body = parsed as Partial<StreamRequestBody> | null;
+	if (!body || !Array.isArray(body.messages)) {
+		return E.left(new Error("Request body must be an object with a messages array"));
+	}
+	if (body.tools !== undefined && !Array.isArray(body.tools)) {
+		return E.left(new Error("tools must be an array"));
+	}
+	return E.right(body as StreamRequestBody);
+}
+
+function negotiateFormat(request: NodeRequestLike, format?: StreamFormat): StreamFormat {
+	if (format) {
+		return format;
+	}
+	const accept = request.headers.accept;
+	const value = Array.isArray(accept) ? accept.join(",") : accept ?? "";
+	return value.includes(NDJSON_CONTENT_TYPE) && !value.includes(SSE_CONTENT_TYPE) ? "ndjson" : "sse";
+}
+
+export function createNodeAgentStreamHandler(
+	generate: AgentGenerate,
+	options: NodeAgentStreamHandlerOptions = {}
+): (request: NodeRequestLike, response: NodeResponseLike) => Promise<void> {
+	const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+	const fail = (response: NodeResponseLike, status: number, error: Error) => {
+		options.onError?.(error);
+		response.statusCode = status;
+		response.setHeader("content-type", "application/json");
+		response.end(JSON.stringify({ error: { name: error.name, message: error.message } }));
+	};
+	return async (request, response) => {
+		if (request.method && request.method !== "POST") {
+			response.setHeader("allow", "POST");
+			fail(response, 405, new Error(`Method ${request.method} not allowed`));
+			return;
+		}
+		let text: E.Either<Error, string>;
+		try {
+			text = await readRequestBody(request, maxBodyBytes);
+		} catch (error) {
+			fail(response, 400, toError(error));
+			return;
+		}
+		if (E.isLeft(text)) {
+			fail(response, 413, text.left);
+			return;
+		}
+		const body = parseStreamRequest(text.right);
+		if (E.isLeft(body)) {
+			fail(response, 400, body.left);
+			return;
+		}
+
+		const format = negotiateFormat(request, options.format);
+		const controller = new AbortController();
+		response.on?.("close", () => {
+			if (!response.writableEnded) {
+				controller.abort();
+			}
+		});
+		response.statusCode = 200;
+		response.setHeader("content-type", format === "ndjson" ? NDJSON_CONTENT_TYPE : SSE_CONTENT_TYPE);
+		response.setHeader("cache-control", "no-cache");
+
+		const writeError = (error: Error) => {
+			options.onError?.(error);
+			response.write(
+				encodeStreamFrame({ type: "error", error: { name: error.name, message: error.message } }, format)
+			);
+		};
+		try {
+			const stream = await generate(body.right.messages, options.tools ?? body.right.tools, controller.signal);
+			for await (const event of stream) {
+				if (controller.signal.aborted) {
+					break;
+				}
+				if (E.isLeft(event)) {
+					writeError(event.left);
+					break;
+				}
+				response.write(encodeStreamFrame(event.right, format));
+			}
+		} catch (error) {
+			if (!controller.signal.aborted) {
+				writeError(toError(error));
+			}
+		} finally {
+			if (!response.writableEnded) {
+				response.end();
+			}
+		}
+	};
+}
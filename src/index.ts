@@ -3,3 +3,25 @@ export * from "./agent";
 export * from "./adapters";
 export * from "./skill";
 export * from "./tools";
+export * from "./schema";
+export * from "./compaction";
+export * from "./tokenizer";
+export * from "./models";
+export * from "./usage";
+export * from "./chat-completions";
+export * from "./sse";
+export * from "./anthropic";
+export * from "./fetch-stream";
+export * from "./middleware";
+export * from "./fallback";
+export * from "./cassette";
+export * from "./mock";
+export * from "./session";
+export * from "./checkpoint";
+export * from "./checkpoint-format";
+export * from "./conversation";
+export * from "./dom-history";
+export * from "./sandbox";
+export * from "./capture";
+export * from "./serialize";
+export * from "./a11y";
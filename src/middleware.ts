@@ -0,0 +1,239 @@
+import * as E from "fp-ts/lib/Either.js";
+import type { AgentEvent, AgentGenerate, AgentStreamEvent, Message, ToolDefinition } from "./types";
+
+const toError = (error: unknown): Error =>
+	error instanceof Error ? error : new Error(String(error));
+const right = (event: AgentEvent): AgentStreamEvent => E.right(event);
+const left = (error: Error): AgentStreamEvent => E.left(error);
+
+export type GenerateMiddleware = (next: AgentGenerate) => AgentGenerate;
+
+export type RetryOptions = {
+	maxRetries?: number;
+	baseDelayMs?: number;
+	maxDelayMs?: number;
+	jitter?: boolean;
+	shouldRetry?: (error: Error, attempt: number) => boolean;
+	random?: () => number;
+};
+
+export type TimeoutOptions = {
+	timeoutMs?: number;
+	idleTimeoutMs?: number;
+};
+
+export class GenerateTimeoutError extends Error {
+	public readonly timeoutMs: number;
+
+	public constructor(message: string, timeoutMs: number) {
+		super(message);
+		this.name = "TimeoutError";
+		this.timeoutMs = timeoutMs;
+	}
+}
+
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_BASE_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 30_000;
+
+const RETRYABLE_ERROR_NAMES = new Set([
+	"TimeoutError",
+	"APIConnectionError",
+	"APIConnectionTimeoutError",
+	"InternalServerError",
+	"RateLimitError",
+]);
+
+export function composeGenerate(generate: AgentGenerate, ...middleware: GenerateMiddleware[]): AgentGenerate {
+	return middleware.reduceRight((next, wrap) => wrap(next), generate);
+}
+
+export function errorStatus(error: unknown): number | undefined {
+	const status = (error as { status?: unknown } | null)?.status;
+	return typeof status === "number" ? status : undefined;
+}
+
+function readHeader(headers: unknown, name: string): string | undefined {
+	if (!headers) {
+		return undefined;
+	}
+	if (typeof (headers as Headers).get === "function") {
+		return (headers as Headers).get(name) ?? undefined;
+	}
+	const value = (headers as Record<string, unknown>)[name];
+	return typeof value === "string" ? value : undefined;
+}
+
+export function retryAfterMs(error: unknown, now: number = Date.now()): number | undefined {
+	const headers = (error as { headers?: unknown } | null)?.headers;
+	const ms = Number(readHeader(headers, "retry-after-ms"));
+	if (Number.isFinite(ms) && ms >= 0) {
+		return ms;
+	}
+	const value = readHeader(headers, "retry-after");
+	if (!value) {
+		return undefined;
+	}
+	const seconds = Number(value);
+	if (Number.isFinite(seconds)) {
+		return Math.max(0, seconds * 1000);
+	}
+	const date = Date.parse(value);
+	return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+export function isRetryableError(error: Error): boolean {
+	if (error.name === "AbortError" || error.name === "APIUserAbortError") {
+		return false;
+	}
+	const status = errorStatus(error);
+	if (status !== undefined) {
+		return status === 408 || status === 409 || status === 429 || status >= 500;
+	}
+	if (RETRYABLE_ERROR_NAMES.has(error.name)) {
+		return true;
+	}
+	return error instanceof TypeError && /fetch|network/i.test(error.message);
+}
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<boolean> =>
+	new Promise((resolve) => {
+		if (signal?.aborted) {
+			resolve(false);
+			return;
+		}
+		const onAbort = () => {
+			clearTimeout(timer);
+			resolve(false);
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener("abort", onAbort);
+			resolve(true);
+		}, ms);
+		signal?.addEventListener("abort", onAbort, { once: true });
+	});
+
+export function withRetry(options: RetryOptions = {}): GenerateMiddleware {
+	const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+	const baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+	const maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+	const shouldRetry = options.shouldRetry ?? isRetryableError;
+	const random = options.random ?? Math.random;
+	const backoff = (attempt: number) => {
+		const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+		return options.jitter === false ? delay : Math.round(delay / 2 + (random() * delay) / 2);
+	};
+	return (next) =>
+		async function* (messages: Message[], tools?: ToolDefinition[], signal?: AbortSignal) {
+			for (let attempt = 1; ; attempt += 1) {
+				let committed = false;
+				let failure: Error | null = null;
+				try {
+					for await (const event of await next(messages, tools, signal)) {
+						if (E.isLeft(event) && !committed) {
+							failure = event.left;
+							break;
+						}
+						if (E.isRight(event) && event.right.type !== "retry") {
+							committed = true;
+						}
+						yield event;
+					}
+				} catch (error) {
+					if (committed || signal?.aborted) {
+						yield left(toError(error));
+						return;
+					}
+					failure = toError(error);
+				}
+				if (!failure) {
+					return;
+				}
+				const serverDelay = retryAfterMs(failure);
+				const canRetry =
+					attempt <= maxRetries &&
+					!signal?.aborted &&
+					shouldRetry(failure, attempt) &&
+					(serverDelay === undefined || serverDelay <= maxDelayMs);
+				if (!canRetry) {
+					yield left(failure);
+					return;
+				}
+				const delayMs = serverDelay ?? backoff(attempt);
+				const status = errorStatus(failure);
+				yield right({
+					type: "retry",
+					attempt,
+					maxRetries,
+					delayMs,
+					reason: failure.message,
+					...(status !== undefined ? { status } : {}),
+				});
+				if (!(await sleep(delayMs, signal))) {
+					return;
+				}
+			}
+		};
+}
+
+export function withTimeout(options: number | TimeoutOptions): GenerateMiddleware {
+	const { timeoutMs, idleTimeoutMs } = typeof options === "number" ? { timeoutMs: options } : options;
+	return (next) =>
+		async function* (messages: Message[], tools?: ToolDefinition[], signal?: AbortSignal) {
+			const controller = new AbortController();
+			const forwardAbort = () => controller.abort(signal?.reason);
+			if (signal?.aborted) {
+				forwardAbort();
+			}
+			signal?.addEventListener("abort", forwardAbort, { once: true });
+			const startedAt = Date.now();
+			let iterator: AsyncIterator<AgentStreamEvent> | null = null;
+			let timer: ReturnType<typeof setTimeout> | undefined;
+			const deadline = (): Promise<GenerateTimeoutError> | null => {
+				const remaining = timeoutMs === undefined ? undefined : timeoutMs - (Date.now() - startedAt);
+				const limit = Math.min(remaining ?? Infinity, idleTimeoutMs ?? Infinity);
+				if (limit === Infinity) {
+					return null;
+				}
+				const message =
+					limit === idleTimeoutMs
+						? `Model stream was idle for ${idleTimeoutMs}ms`
+						: `Model call exceeded ${timeoutMs}ms`;
+				return new Promise((resolve) => {
+					timer = setTimeout(
+						() => resolve(new GenerateTimeoutError(message, limit)),
+						Math.max(0, limit)
+					);
+				});
+			};
+			try {
+				iterator = (await next(messages, tools, controller.signal))[Symbol.asyncIterator]();
+				while (true) {
+					const timeout = deadline();
+					const step = await (timeout ? Promise.race([iterator.next(), timeout]) : iterator.next());
+					clearTimeout(timer);
+					if (step instanceof GenerateTimeoutError) {
+						controller.abort(step);
+						void iterator.return?.()?.catch(() => undefined);
+						iterator = null;
+						yield left(step);
+						return;
+					}
+					if (step.done) {
+						iterator = null;
+						return;
+					}
+					yield step.value;
+				}
+			} catch (error) {
+				iterator = null;
+				yield left(toError(error));
+			} finally {
+				clearTimeout(timer);
+				signal?.removeEventListener("abort", forwardAbort);
+				if (iterator) {
+					await iterator.return?.();
+				}
+			}
+		};
+}
@@ -0,0 +1,291 @@
+import * as E from "fp-ts/lib/Either.js";
+import type { AgentAdapter } from "./adapters";
+import { DEFAULT_CONTEXT_WINDOW_TOKENS } from "./models";
+import { countTokensForModel } from "./tokenizer";
+import type { AgentEvent, AgentGenerate, AgentStreamEvent, Message, TokenCounter, ToolDefinition } from "./types";
+
+const right = (event: AgentEvent): AgentStreamEvent => E.right(event);
+const left = (error: Error): AgentStreamEvent => E.left(error);
+
+export type MockContext = {
+	messages: Message[];
+	tools: string[];
+	depth: number;
+	callIndex: number;
+	lastToolOutput?: string;
+};
+
+export type MockPredicate = (context: MockContext) => boolean;
+
+export type MockToolExpectation = string[] | ((tools: string[]) => boolean);
+
+export type MockAction =
+	| { kind: "text"; content: string }
+	| { kind: "think"; summary: string }
+	| { kind: "tool"; name: string; args: unknown }
+	| { kind: "skill"; name: string; task: string; history?: Array<{ role: string; content: string }> }
+	| { kind: "error"; error: Error };
+
+export type MockCall = {
+	step: number;
+	depth: number;
+	tools: string[];
+	messages: Message[];
+};
+
+export type MockAdapterOptions = {
+	model?: string;
+	contextWindowTokens?: number;
+};
+
+export type MockAdapter = AgentAdapter & {
+	calls: MockCall[];
+	failures: MockExpectationError[];
+	remainingSteps: () => number;
+	assertDone: () => void;
+};
+
+export class MockExpectationError extends Error {
+	public constructor(message: string) {
+		super(message);
+		this.name = "MockExpectationError";
+	}
+}
+
+const sanitizeCallName = (name: string) =>
+	name
+		.trim()
+		.replace(/[^a-zA-Z0-9_-]/g, "_")
+		.replace(/_+/g, "_")
+		.replace(/^_+|_+$/g, "");
+
+export class MockStep {
+	public readonly actions: MockAction[] = [];
+	public predicate?: MockPredicate;
+	public expectedTools?: MockToolExpectation;
+	public expectedDepth?: number;
+	public isOptional = false;
+
+	public text(content: string): this {
+		this.actions.push({ kind: "text", content });
+		return this;
+	}
+
+	public think(summary: string): this {
+		this.actions.push({ kind: "think", summary });
+		return this;
+	}
+
+	public callTool(name: string, args: unknown = {}): this {
+		this.actions.push({ kind: "tool", name, args });
+		return this;
+	}
+
+	public callSkill(name: string, task: string, history?: Array<{ role: string; content: string }>): this {
+		this.actions.push({ kind: "skill", name, task, history });
+		return this;
+	}
+
+	public fail(error: Error | string): this {
+		this.actions.push({ kind: "error", error: typeof error === "string" ? new Error(error) : error });
+		return this;
+	}
+
+	public when(predicate: MockPredicate): this {
+		this.predicate = predicate;
+		return this;
+	}
+
+	public expectTools(tools: MockToolExpectation): this {
+		this.expectedTools = tools;
+		return this;
+	}
+
+	public expectDepth(depth: number): this {
+		this.expectedDepth = depth;
+		return this;
+	}
+
+	public optional(): this {
+		this.isOptional = true;
+		return this;
+	}
+
+	public get callsSkills(): number {
+		return this.actions.filter((action) => action.kind === "skill").length;
+	}
+
+	public get endsRun(): boolean {
+		return !this.actions.some((action) => action.kind === "tool" || action.kind === "skill");
+	}
+}
+
+export const mockStep = (): MockStep => new MockStep();
+
+function lastToolOutput(messages: Message[]): string | undefined {
+	for (let index = messages.length - 1; index >= 0; index -= 1) {
+		const item = messages[index] as { type?: string; output?: unknown };
+		if (item.type === "function_call_output") {
+			return typeof item.output === "string" ? item.output : JSON.stringify(item.output);
+		}
+	}
+	return undefined;
+}
+
+function checkTools(expected: MockToolExpectation, offered: string[]): string | null {
+	if (typeof expected === "function") {
+		return expected(offered) ? null : `tool check failed for [${offered.join(", ")}]`;
+	}
+	const missing = expected.filter((name) => !offered.includes(name) && !offered.includes(sanitizeCallName(name)));
+	return missing.length ? `expected tools [${missing.join(", ")}] to be offered, got [${offered.join(", ")}]` : null;
+}
+
+type IssuedSkill = {
+	callId: string;
+	task: string;
+	depth: number;
+};
+
+const callIdsOf = (messages: Message[]): string[] =>
+	messages.flatMap((message) => {
+		const item = message as { type?: string; call_id?: unknown };
+		return (item.type === "function_call" || item.type === "function_call_output") && typeof item.call_id === "string"
+			? [item.call_id]
+			: [];
+	});
+
+const lastUserContent = (messages: Message[]): string | undefined => {
+	for (let index = messages.length - 1; index >= 0; index -= 1) {
+		const item = messages[index] as { role?: string; content?: unknown };
+		if (item.role === "user") {
+			return typeof item.content === "string" ? item.content : undefined;
+		}
+	}
+	return undefined;
+};
+
+export function createMockAdapter(steps: MockStep[], options: MockAdapterOptions = {}): MockAdapter {
+	const model = options.model ?? "mock";
+	const used = new Set<number>();
+	const calls: MockCall[] = [];
+	const failures: MockExpectationError[] = [];
+	const callDepths = new Map<string, number>();
+	const unopenedSkills: IssuedSkill[] = [];
+	let callCounter = 0;
+
+	const depthOf = (messages: Message[]): number => {
+		const known = callIdsOf(messages).filter((callId) => callDepths.has(callId));
+		if (known.length > 0) {
+			const settled = unopenedSkills.filter((skill) => known.includes(skill.callId));
+			for (const skill of settled) {
+				unopenedSkills.splice(unopenedSkills.indexOf(skill), 1);
+			}
+			return callDepths.get(known[known.length - 1]) ?? 0;
+		}
+		const task = lastUserContent(messages);
+		const index = unopenedSkills.findIndex((skill) => skill.task === task);
+		if (index === -1) {
+			return 0;
+		}
+		const [skill] = unopenedSkills.splice(index, 1);
+		return skill.depth + 1;
+	};
+	const nextCallId = (depth: number) => {
+		callCounter += 1;
+		const callId = `mock-call-${callCounter}`;
+		callDepths.set(callId, depth);
+		return callId;
+	};
+	const fail = (message: string): AgentStreamEvent => {
+		const error = new MockExpectationError(message);
+		failures.push(error);
+		return left(error);
+	};
+
+	const generate: AgentGenerate = async function* (messages: Message[], tools?: ToolDefinition[]) {
+		const offered = (tools ?? []).flatMap((tool) => (tool.type === "function" ? [tool.name] : []));
+		const depth = depthOf(messages);
+		const context: MockContext = {
+			messages,
+			tools: offered,
+			depth,
+			callIndex: calls.length,
+			lastToolOutput: lastToolOutput(messages),
+		};
+		const index = steps.findIndex((step, position) => !used.has(position) && (step.predicate?.(context) ?? true));
+		if (index === -1) {
+			yield fail(`No mock step matches call #${calls.length + 1} at depth ${depth}`);
+			return;
+		}
+		const step = steps[index];
+		used.add(index);
+		calls.push({ step: index, depth, tools: offered, messages: [...messages] });
+
+		if (step.expectedDepth !== undefined && step.expectedDepth !== depth) {
+			yield fail(`Mock step ${index + 1} expected depth ${step.expectedDepth}, ran at depth ${depth}`);
+			return;
+		}
+		const toolProblem = step.expectedTools ? checkTools(step.expectedTools, offered) : null;
+		if (toolProblem) {
+			yield fail(`Mock step ${index + 1}: ${toolProblem}`);
+			return;
+		}
+
+		const resolveName = (name: string) => (offered.includes(name) ? name : sanitizeCallName(name));
+		for (const action of step.actions) {
+			switch (action.kind) {
+				case "text":
+					yield right({ type: "message.delta", delta: action.content });
+					break;
+				case "think":
+					yield right({ type: "thinking", summary: action.summary });
+					break;
+				case "tool":
+					yield right({
+						type: "tool.start",
+						name: resolveName(action.name),
+						args: JSON.stringify(action.args ?? {}),
+						callId: nextCallId(depth),
+					});
+					break;
+				case "skill": {
+					const callId = nextCallId(depth);
+					unopenedSkills.push({ callId, task: action.task, depth });
+					yield right({
+						type: "tool.start",
+						name: resolveName(action.name),
+						args: JSON.stringify({ task: action.task, ...(action.history ? { history: action.history } : {}) }),
+						callId,
+					});
+					break;
+				}
+				case "error":
+					yield left(action.error);
+					return;
+			}
+		}
+	};
+
+	const countTokens: TokenCounter = (messages) => countTokensForModel(messages, model);
+	return {
+		model,
+		generate,
+		countTokens,
+		contextWindowTokens: options.contextWindowTokens ?? DEFAULT_CONTEXT_WINDOW_TOKENS,
+		calls,
+		failures,
+		remainingSteps: () => steps.filter((step, index) => !used.has(index) && !step.isOptional).length,
+		assertDone: () => {
+			if (failures.length) {
+				throw failures[0];
+			}
+			const remaining = steps
+				.map((step, index) => ({ step, index }))
+				.filter(({ step, index }) => !used.has(index) && !step.isOptional)
+				.map(({ index }) => index + 1);
+			if (remaining.length) {
+				throw new MockExpectationError(`Mock steps never ran: ${remaining.join(", ")}`);
+			}
+		},
+	};
+}
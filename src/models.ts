@@ -0,0 +1,96 @@
+export type ModelPricing = {
+	inputPer1M: number;
+	outputPer1M: number;
+	cachedInputPer1M?: number;
+};
+
+export type ModelInfo = {
+	id: string;
+	contextWindowTokens: number;
+	maxOutputTokens: number;
+	supportsReasoning: boolean;
+	supportsTools: boolean;
+	pricing?: ModelPricing;
+};
+
+export type ModelInfoUpdate = Partial<ModelInfo> & { id: string };
+
+export const DEFAULT_CONTEXT_WINDOW_TOKENS = 96_000;
+
+const builtIn = (
+	id: string,
+	contextWindowTokens: number,
+	maxOutputTokens: number,
+	supportsReasoning: boolean,
+	pricing: ModelPricing
+): ModelInfo => ({ id, contextWindowTokens, maxOutputTokens, supportsReasoning, supportsTools: true, pricing });
+
+const BUILT_IN_MODELS: ModelInfo[] = [
+	builtIn("gpt-3.5-turbo", 16_385, 4_096, false, { inputPer1M: 0.5, outputPer1M: 1.5 }),
+	builtIn("gpt-4-turbo", 128_000, 4_096, false, { inputPer1M: 10, outputPer1M: 30 }),
+	builtIn("gpt-4o", 128_000, 16_384, false, { inputPer1M: 2.5, outputPer1M: 10, cachedInputPer1M: 1.25 }),
+	builtIn("gpt-4o-mini", 128_000, 16_384, false, { inputPer1M: 0.15, outputPer1M: 0.6, cachedInputPer1M: 0.075 }),
+	builtIn("gpt-4.1", 1_047_576, 32_768, false, { inputPer1M: 2, outputPer1M: 8, cachedInputPer1M: 0.5 }),
+	builtIn("gpt-4.1-mini", 1_047_576, 32_768, false, { inputPer1M: 0.4, outputPer1M: 1.6, cachedInputPer1M: 0.1 }),
+	builtIn("gpt-4.1-nano", 1_047_576, 32_768, false, { inputPer1M: 0.1, outputPer1M: 0.4, cachedInputPer1M: 0.025 }),
+	builtIn("o3", 200_000, 100_000, true, { inputPer1M: 2, outputPer1M: 8, cachedInputPer1M: 0.5 }),
+	builtIn("o4-mini", 200_000, 100_000, true, { inputPer1M: 1.1, outputPer1M: 4.4, cachedInputPer1M: 0.275 }),
+	builtIn("gpt-5", 400_000, 128_000, true, { inputPer1M: 1.25, outputPer1M: 10, cachedInputPer1M: 0.125 }),
+	builtIn("gpt-5-mini", 400_000, 128_000, true, { inputPer1M: 0.25, outputPer1M: 2, cachedInputPer1M: 0.025 }),
+	builtIn("gpt-5-nano", 400_000, 128_000, true, { inputPer1M: 0.05, outputPer1M: 0.4, cachedInputPer1M: 0.005 }),
+	builtIn("gpt-5.1", 400_000, 128_000, true, { inputPer1M: 1.25, outputPer1M: 10, cachedInputPer1M: 0.125 }),
+	builtIn("gpt-5.1-codex", 400_000, 128_000, true, { inputPer1M: 1.25, outputPer1M: 10, cachedInputPer1M: 0.125 }),
+	builtIn("gpt-5.1-codex-mini", 400_000, 128_000, true, {
+		inputPer1M: 0.25,
+		outputPer1M: 2,
+		cachedInputPer1M: 0.025,
+	}),
+	builtIn("gpt-5.2", 400_000, 128_000, true, { inputPer1M: 1.75, outputPer1M: 14, cachedInputPer1M: 0.175 }),
+	builtIn("gpt-5.2-codex", 400_000, 128_000, true, { inputPer1M: 1.75, outputPer1M: 14, cachedInputPer1M: 0.175 }),
+	builtIn("claude-3-5-haiku", 200_000, 8_192, false, { inputPer1M: 0.8, outputPer1M: 4, cachedInputPer1M: 0.08 }),
+	builtIn("claude-3-7-sonnet", 200_000, 64_000, true, { inputPer1M: 3, outputPer1M: 15, cachedInputPer1M: 0.3 }),
+	builtIn("claude-sonnet-4", 200_000, 64_000, true, { inputPer1M: 3, outputPer1M: 15, cachedInputPer1M: 0.3 }),
+	builtIn("claude-sonnet-4-5", 200_000, 64_000, true, { inputPer1M: 3, outputPer1M: 15, cachedInputPer1M: 0.3 }),
+	builtIn("claude-haiku-4-5", 200_000, 64_000, true, { inputPer1M: 1, outputPer1M: 5, cachedInputPer1M: 0.1 }),
+	builtIn("claude-opus-4", 200_000, 32_000, true, { inputPer1M: 15, outputPer1M: 75, cachedInputPer1M: 1.5 }),
+	builtIn("claude-opus-4-1", 200_000, 32_000, true, { inputPer1M: 15, outputPer1M: 75, cachedInputPer1M: 1.5 }),
+	builtIn("claude-opus-4-5", 200_000, 64_000, true, { inputPer1M: 5, outputPer1M: 25, cachedInputPer1M: 0.5 }),
+];
+
+const registry = new Map<string, ModelInfo>(BUILT_IN_MODELS.map((info) => [info.id, info]));
+
+const isCompleteModelInfo = (info: ModelInfoUpdate): info is ModelInfo =>
+	typeof info.contextWindowTokens === "number" &&
+	typeof info.maxOutputTokens === "number" &&
+	typeof info.supportsReasoning === "boolean" &&
+	typeof info.supportsTools === "boolean";
+
+export function registerModel(info: ModelInfoUpdate): ModelInfo {
+	const id = info.id.toLowerCase();
+	const existing = registry.get(id);
+	const merged = { ...existing, ...info, id };
+	if (!isCompleteModelInfo(merged)) {
+		throw new Error(
+			`Model ${info.id} is not registered yet; provide contextWindowTokens, maxOutputTokens, supportsReasoning and supportsTools.`
+		);
+	}
+	registry.set(id, merged);
+	return merged;
+}
+
+const SNAPSHOT_SUFFIX = /-(?:\d{4}-\d{2}-\d{2}|\d{8})$/;
+
+export const stripSnapshotSuffix = (model: string): string => model.replace(SNAPSHOT_SUFFIX, "");
+
+export function getModelInfo(model: string): ModelInfo | undefined {
+	const normalized = model.trim().toLowerCase();
+	return registry.get(normalized) ?? registry.get(stripSnapshotSuffix(normalized));
+}
+
+export function listModels(): ModelInfo[] {
+	return [...registry.values()];
+}
+
+export function contextWindowForModel(model: string): number {
+	return getModelInfo(model)?.contextWindowTokens ?? DEFAULT_CONTEXT_WINDOW_TOKENS;
+}
@@ -0,0 +1,621 @@
+import type { CaptureEnvelope } from "./capture";
+
+export type SandboxEventInfo = {
+	type: string;
+	targetXPath: string;
+	value?: string;
+	checked?: boolean;
+	key?: string;
+};
+
+export type SandboxRequest = {
+	code: string;
+	async?: boolean;
+	html: string;
+	event?: SandboxEventInfo;
+	capture?: { maxChars: number };
+};
+
+export type SandboxCapture = Omit<CaptureEnvelope, "result">;
+
+export type SandboxResult = {
+	result: unknown;
+	html: string;
+	captured?: SandboxCapture;
+};
+
+export type Sandbox = {
+	run: (request: SandboxRequest, signal?: AbortSignal) => Promise<SandboxResult>;
+	dispose: () => void;
+};
+
+export type SandboxToolOptions = {
+	sandbox?: Sandbox;
+};
+
+export type IframeSandboxOptions = {
+	document?: Document;
+	timeoutMs?: number;
+	globals?: string[];
+};
+
+type SandboxResponse =
+	| { id: number; ok: true; result: unknown; html: string; captured?: SandboxCapture }
+	| { id: number; ok: false; error: { name: string; message: string; stack?: string }; captured?: SandboxCapture };
+
+export const DEFAULT_SANDBOX_TIMEOUT_MS = 5000;
+
+export const DEFAULT_SANDBOX_GLOBALS = [
+	"Array",
+	"Boolean",
+	"Date",
+	"Error",
+	"Intl",
+	"JSON",
+	"Map",
+	"Math",
+	"Number",
+	"Object",
+	"Promise",
+	"RangeError",
+	"RegExp",
+	"Set",
+	"String",
+	"Symbol",
+	"TypeError",
+	"WeakMap",
+	"WeakSet",
+	"clearTimeout",
+	"console",
+	"decodeURIComponent",
+	"document",
+	"encodeURIComponent",
+	"isFinite",
+	"isNaN",
+	"parseFloat",
+	"parseInt",
+	"queueMicrotask",
+	"setTimeout",
+	"structuredClone",
+];
+
+export class SandboxTimeoutError extends Error {
+	public readonly timeoutMs: number;
+
+	public constructor(timeoutMs: number) {
+		super(`Sandboxed code did not finish within ${timeoutMs}ms.`);
+		this.name = "SandboxTimeoutError";
+		this.timeoutMs = timeoutMs;
+	}
+}
+
+export class SandboxError extends Error {
+	public readonly remoteName: string;
+	public readonly captured?: SandboxCapture;
+
+	public constructor(remote: { name: string; message: string; stack?: string }, captured?: SandboxCapture) {
+		super(remote.message);
+		this.name = "SandboxError";
+		this.remoteName = remote.name;
+		this.captured = captured;
+		if (remote.stack) {
+			this.stack = remote.stack;
+		}
+	}
+}
+
+export function sandboxBootstrap(win: Window, allowedGlobals: string[], token: string, replyToken: string): void {
+	const doc = win.document;
+	const host = win.parent;
+	doc.currentScript?.remove();
+	const { Node: NodeRef, XPathResult: XPathResultRef } = win as Window & typeof globalThis;
+	const allowed = new Set(allowedGlobals);
+	const reserved = new Set([
+		"arguments",
+		"await",
+		"console",
+		"eval",
+		"event",
+		"element",
+		"helpers",
+		"implements",
+		"Infinity",
+		"interface",
+		"let",
+		"NaN",
+		"package",
+		"private",
+		"protected",
+		"public",
+		"static",
+		"undefined",
+		"yield",
+	]);
+	if (!allowed.has("eval")) {
+		Reflect.deleteProperty(win, "eval");
+	}
+	const identifier = /^[A-Za-z_$][\w$]*$/;
+	const blockedGlobals = () => {
+		const names = new Set<string>();
+		let scope: object | null = win;
+		while (scope && scope !== Object.prototype) {
+			for (const name of Object.getOwnPropertyNames(scope)) {
+				if (identifier.test(name) && !allowed.has(name) && !reserved.has(name)) {
+					names.add(name);
+				}
+			}
+			scope = Object.getPrototypeOf(scope) as object | null;
+		}
+		names.add("window");
+		names.add("globalThis");
+		names.add("self");
+		return [...names].filter((name) => !allowed.has(name));
+	};
+	const scopeXpath = (xpath: string) => {
+		const trimmed = xpath.trim();
+		if (trimmed === "/") {
+			return ".";
+		}
+		return trimmed.startsWith("/") ? `.${trimmed}` : trimmed;
+	};
+	const createHelpers = (root: Element) => {
+		const x = (xpath: string, rootOverride?: unknown): Node[] => {
+			const base = rootOverride instanceof NodeRef ? rootOverride : root;
+			const result = doc.evaluate(scopeXpath(xpath), base, null, XPathResultRef.ORDERED_NODE_SNAPSHOT_TYPE, null);
+			const nodes: Node[] = [];
+			for (let index = 0; index < result.snapshotLength; index += 1) {
+				const node = result.snapshotItem(index);
+				if (node) {
+					nodes.push(node);
+				}
+			}
+			return nodes;
+		};
+		const resolve = (target: unknown): Node | null => {
+			if (target instanceof NodeRef) {
+				return target;
+			}
+			if (Array.isArray(target)) {
+				return (target.find((item) => item instanceof NodeRef) as Node | undefined) ?? null;
+			}
+			return typeof target === "string" ? x(target)[0] ?? null : null;
+		};
+		const toText = (node: Node | null) =>
+			!node ? "" : node.nodeType === 1 ? (node as Element).outerHTML : node.textContent ?? "";
+		const replaceSubtree = (target: unknown, next: unknown) => {
+			const resolved = resolve(target);
+			if (!resolved) {
+				throw new Error("replaceSubtree: target not found.");
+			}
+			let replacement: Node;
+			if (next instanceof NodeRef) {
+				replacement = next;
+			} else if (typeof next === "string") {
+				const template = doc.createElement("template");
+				template.innerHTML = next;
+				replacement = template.content;
+			} else {
+				replacement = doc.createTextNode(String(next ?? ""));
+			}
+			(resolved as ChildNode).replaceWith(replacement);
+			return replacement;
+		};
+		const diffSubtree = (a: unknown, b: unknown) => {
+			const nodeA = resolve(a);
+			const nodeB = resolve(b);
+			return {
+				equal: nodeA && nodeB ? nodeA.isEqualNode(nodeB) : nodeA === nodeB,
+				before: toText(nodeA),
+				after: toText(nodeB),
+			};
+		};
+		return { x, replaceSubtree, diffSubtree, viewRoot: root };
+	};
+	const serialize = (value: unknown): unknown => {
+		if (value === undefined) {
+			return null;
+		}
+		if (value instanceof NodeRef) {
+			return value.nodeType === 1 ? (value as Element).outerHTML : value.textContent;
+		}
+		try {
+			return JSON.parse(JSON.stringify(value)) as unknown;
+		} catch {
+			return String(value);
+		}
+	};
+	const format = (args: unknown[]) =>
+		args
+			.map((arg) => {
+				if (typeof arg === "string") {
+					return arg;
+				}
+				if (arg instanceof Error) {
+					return `${arg.name}: ${arg.message}`;
+				}
+				const value = serialize(arg);
+				return typeof value === "string" ? value : JSON.stringify(value);
+			})
+			.join(" ");
+	const createRecorder = (maxChars: number) => {
+		const logs: { level: string; message: string }[] = [];
+		const errors: { name: string; message: string; stack?: string }[] = [];
+		let recorded = 0;
+		let truncated = false;
+		let active = true;
+		const keep = (size: number) => {
+			if (recorded >= maxChars) {
+				truncated = true;
+				return false;
+			}
+			recorded += size;
+			return true;
+		};
+		const recordError = (error: unknown) => {
+			const failure = error instanceof Error ? error : new Error(String(error));
+			if (active && keep(failure.message.length + (failure.stack?.length ?? 0))) {
+				errors.push({ name: failure.name, message: failure.message, stack: failure.stack });
+			}
+		};
+		const record = (level: string) => (...args: unknown[]) => {
+			const message = format(args);
+			if (active && keep(message.length)) {
+				logs.push({ level, message });
+			}
+		};
+		const onError = (event: ErrorEvent) => recordError(event.error ?? event.message);
+		const onRejection = (event: PromiseRejectionEvent) => recordError(event.reason);
+		win.addEventListener("error", onError);
+		win.addEventListener("unhandledrejection", onRejection);
+		return {
+			console: { log: record("log"), info: record("info"), warn: record("warn"), error: record("error") },
+			finish: () => {
+				active = false;
+				win.removeEventListener("error", onError);
+				win.removeEventListener("unhandledrejection", onRejection);
+				return { logs, errors, ...(truncated ? { truncated: true } : {}) };
+			},
+		};
+	};
+	const run = async (data: {
+		code: string;
+		async?: boolean;
+		html: string;
+		event?: Record<string, unknown>;
+		capture?: { maxChars: number };
+	}, recorder: ReturnType<typeof createRecorder> | null) => {
+		const template = doc.createElement("template");
+		template.innerHTML = data.html;
+		const root = template.content.firstElementChild;
+		if (!root) {
+			throw new Error("Sandbox snapshot is empty.");
+		}
+		doc.body.replaceChildren(root);
+		const helpers = createHelpers(root);
+		const element = data.event ? helpers.x(String(data.event.targetXPath))[0] ?? null : null;
+		const eventArg = data.event ? { ...data.event, target: element, currentTarget: element, preventDefault: () => undefined } : null;
+		const blocked = blockedGlobals();
+		const body = data.async ? `return (async () => { ${data.code} })();` : `return (function () { ${data.code} })();`;
+		const fn = new Function(
+			...blocked,
+			"helpers",
+			"event",
+			"element",
+			"console",
+			`"use strict"; const { x, replaceSubtree, diffSubtree, viewRoot } = helpers; ${body}`
+		) as (...args: unknown[]) => unknown;
+		const consoleArg = recorder?.console ?? (allowed.has("console") ? (win as Window & typeof globalThis).console : undefined);
+		const result = await fn(...blocked.map(() => undefined), helpers, eventArg, element, consoleArg);
+		return { result: serialize(result), html: root.outerHTML };
+	};
+	win.addEventListener("message", (message: MessageEvent) => {
+		const data = message.data as { id?: unknown; token?: unknown } | null;
+		if (!data || data.token !== token || typeof data.id !== "number") {
+			return;
+		}
+		const id = data.id;
+		const request = message.data as Parameters<typeof run>[0];
+		const recorder = request.capture ? createRecorder(request.capture.maxChars) : null;
+		const captured = () => (recorder ? { captured: recorder.finish() } : {});
+		run(request, recorder).then(
+			(output) => host.postMessage({ token: replyToken, id, ok: true, ...output, ...captured() }, "*"),
+			(error: unknown) => {
+				const failure = error instanceof Error ? error : new Error(String(error));
+				host.postMessage(
+					{
+						token: replyToken,
+						id,
+						ok: false,
+						error: { name: failure.name, message: failure.message, stack: failure.stack },
+						...captured(),
+					},
+					"*"
+				);
+			}
+		);
+	});
+	host.postMessage({ token: replyToken, type: "sandbox.ready" }, "*");
+}
+
+const sandboxBootstrapSource = (globals: string[], token: string, replyToken: string): string =>
+	`(${sandboxBootstrap.toString()})(window, ${JSON.stringify(globals)}, ${JSON.stringify(token)}, ${JSON.stringify(replyToken)});`;
+
+function createToken(win: Window): string {
+	const values = new Uint32Array(4);
+	if (win.crypto?.getRandomValues) {
+		win.crypto.getRandomValues(values);
+	} else {
+		values.forEach((_, index) => {
+			values[index] = Math.floor(Math.random() * 0xffffffff);
+		});
+	}
+	return Array.from(values, (value) => value.toString(36)).join("");
+}
+
+type PendingRequest = { resolve: (response: SandboxResponse) => void; reject: (error: Error) => void };
+
+type SandboxFrame = {
+	iframe: HTMLIFrameElement;
+	token: string;
+	ready: Promise<void>;
+	pending: Map<number, PendingRequest>;
+	retired: boolean;
+	detach: () => void;
+};
+
+const sandboxCsp = (nonce: string): string =>
+	`default-src 'none'; script-src 'nonce-${nonce}' 'unsafe-eval'; connect-src 'none'; form-action 'none'`;
+
+export function createIframeSandbox(options: IframeSandboxOptions = {}): Sandbox {
+	const timeoutMs = options.timeoutMs ?? DEFAULT_SANDBOX_TIMEOUT_MS;
+	const globals = options.globals ?? DEFAULT_SANDBOX_GLOBALS;
+	const frames = new Set<SandboxFrame>();
+	let current: SandboxFrame | null = null;
+	let requestCounter = 0;
+
+	const resolveDocument = (): Document => {
+		const doc = options.document ?? (typeof document !== "undefined" ? document : undefined);
+		if (!doc?.defaultView) {
+			throw new Error("No document available for the sandbox iframe; pass options.document");
+		}
+		return doc;
+	};
+	const removeFrame = (target: SandboxFrame) => {
+		if (!frames.delete(target)) {
+			return;
+		}
+		target.detach();
+		target.iframe.remove();
+		if (current === target) {
+			current = null;
+		}
+	};
+	const retireFrame = (target: SandboxFrame) => {
+		target.retired = true;
+		if (current === target) {
+			current = null;
+		}
+		if (target.pending.size === 0) {
+			removeFrame(target);
+		}
+	};
+	const ensureFrame = (): SandboxFrame => {
+		if (current) {
+			return current;
+		}
+		const doc = resolveDocument();
+		const win = doc.defaultView as Window;
+		const token = createToken(win);
+		const replyToken = createToken(win);
+		const nonce = createToken(win);
+		const iframe = doc.createElement("iframe");
+		iframe.setAttribute("sandbox", "allow-scripts");
+		iframe.setAttribute("aria-hidden", "true");
+		iframe.style.display = "none";
+		iframe.srcdoc = [
+			"<!doctype html><html><head>",
+			`<meta http-equiv="Content-Security-Policy" content="${sandboxCsp(nonce)}">`,
+			"</head><body>",
+			`<script nonce="${nonce}">${sandboxBootstrapSource(globals, token, replyToken)}</script>`,
+			"</body></html>",
+		].join("");
+		let markReady: () => void = () => undefined;
+		const ready = new Promise<void>((resolve) => {
+			markReady = resolve;
+		});
+		const pending = new Map<number, PendingRequest>();
+		const onMessage = (message: MessageEvent) => {
+			const data = message.data as (SandboxResponse & { token?: unknown }) | { token?: unknown; type?: string } | null;
+			if (!data || data.token !== replyToken) {
+				return;
+			}
+			if ("type" in data && data.type === "sandbox.ready") {
+				markReady();
+				return;
+			}
+			if ("id" in data) {
+				pending.get(data.id)?.resolve(data);
+			}
+		};
+		win.addEventListener("message", onMessage);
+		const frame: SandboxFrame = {
+			iframe,
+			token,
+			ready,
+			pending,
+			retired: false,
+			detach: () => win.removeEventListener("message", onMessage),
+		};
+		frames.add(frame);
+		current = frame;
+		(doc.body ?? doc.documentElement).appendChild(iframe);
+		return frame;
+	};
+
+	return {
+		run: async (request, signal) => {
+			if (signal?.aborted) {
+				throw signal.reason instanceof Error ? signal.reason : new Error("Aborted.");
+			}
+			const frame = ensureFrame();
+			requestCounter += 1;
+			const id = requestCounter;
+			let timer: ReturnType<typeof setTimeout> | undefined;
+			let onAbort: (() => void) | undefined;
+			try {
+				const response = await new Promise<SandboxResponse>((resolve, reject) => {
+					const fail = (error: Error) => {
+						frame.pending.delete(id);
+						retireFrame(frame);
+						reject(error);
+					};
+					frame.pending.set(id, { resolve, reject });
+					timer = setTimeout(() => fail(new SandboxTimeoutError(timeoutMs)), timeoutMs);
+					onAbort = () => fail(signal?.reason instanceof Error ? signal.reason : new Error("Aborted."));
+					signal?.addEventListener("abort", onAbort, { once: true });
+					frame.ready.then(() => frame.iframe.contentWindow?.postMessage({ ...request, token: frame.token, id }, "*"));
+				});
+				if (!response.ok) {
+					throw new SandboxError(response.error, response.captured);
+				}
+				return {
+					result: response.result,
+					html: response.html,
+					...(response.captured ? { captured: response.captured } : {}),
+				};
+			} finally {
+				frame.pending.delete(id);
+				clearTimeout(timer);
+				if (onAbort) {
+					signal?.removeEventListener("abort", onAbort);
+				}
+				if (frame.retired && frame.pending.size === 0) {
+					removeFrame(frame);
+				}
+			}
+		},
+		dispose: () => {
+			const reason = new Error("Sandbox disposed.");
+			for (const frame of [...frames]) {
+				for (const request of frame.pending.values()) {
+					request.reject(reason);
+				}
+				frame.pending.clear();
+				removeFrame(frame);
+			}
+		},
+	};
+}
+
+const ELEMENT_NODE = 1;
+const UNSAFE_ELEMENTS = new Set([
+	"animate",
+	"animatemotion",
+	"animatetransform",
+	"base",
+	"embed",
+	"frame",
+	"frameset",
+	"iframe",
+	"meta",
+	"object",
+	"script",
+	"set",
+]);
+const URL_ATTRIBUTES = new Set(["action", "background", "formaction", "href", "poster", "src", "xlink:href"]);
+const UNSAFE_URL = /^(?:javascript|data|vbscript):/i;
+
+const isUnsafeElement = (node: Node) =>
+	node.nodeType === ELEMENT_NODE && UNSAFE_ELEMENTS.has((node as Element).localName.toLowerCase());
+
+function isUnsafeAttribute(name: string, value: string): boolean {
+	const lower = name.toLowerCase();
+	if (lower.startsWith("on") || lower === "srcdoc") {
+		return true;
+	}
+	return URL_ATTRIBUTES.has(lower) && UNSAFE_URL.test(value.replace(/[\u0000-\u0020]+/g, ""));
+}
+
+function sanitizeSubtree(element: Element): void {
+	for (const node of [element, ...Array.from(element.querySelectorAll("*"))]) {
+		if (node !== element && isUnsafeElement(node)) {
+			node.remove();
+			continue;
+		}
+		for (const attribute of Array.from(node.attributes)) {
+			if (isUnsafeAttribute(attribute.name, attribute.value)) {
+				node.removeAttribute(attribute.name);
+			}
+		}
+	}
+}
+
+function syncAttributes(target: Element, source: Element): void {
+	for (const attribute of Array.from(target.attributes)) {
+		if (!source.hasAttribute(attribute.name)) {
+			target.removeAttribute(attribute.name);
+		}
+	}
+	for (const attribute of Array.from(source.attributes)) {
+		if (target.getAttribute(attribute.name) !== attribute.value && !isUnsafeAttribute(attribute.name, attribute.value)) {
+			target.setAttribute(attribute.name, attribute.value);
+		}
+	}
+}
+
+const sameKind = (a: Node, b: Node) => a.nodeType === b.nodeType && a.nodeName === b.nodeName;
+
+function morphNode(target: Node, source: Node, doc: Document): void {
+	if (target.nodeType === ELEMENT_NODE) {
+		syncAttributes(target as Element, source as Element);
+		morphChildren(target, source, doc);
+	} else if (target.nodeValue !== source.nodeValue) {
+		target.nodeValue = source.nodeValue;
+	}
+}
+
+function morphChildren(target: Node, source: Node, doc: Document): void {
+	const existing = Array.from(target.childNodes);
+	const sourceChildren = Array.from(source.childNodes).filter(
+		(child) => !isUnsafeElement(child) || existing.some((current) => current.isEqualNode(child))
+	);
+	sourceChildren.forEach((sourceChild, position) => {
+		const remaining = Array.from(target.childNodes).slice(position);
+		const current = remaining[0] ?? null;
+		const exact = remaining.find((child) => child.isEqualNode(sourceChild));
+		if (exact) {
+			if (exact !== current) {
+				target.insertBefore(exact, current);
+			}
+			return;
+		}
+		const reusable =
+			current &&
+			sameKind(current, sourceChild) &&
+			!sourceChildren.slice(position + 1).some((later) => later.isEqualNode(current));
+		if (reusable) {
+			morphNode(current, sourceChild, doc);
+			return;
+		}
+		const inserted = doc.importNode(sourceChild, true);
+		if (inserted.nodeType === ELEMENT_NODE) {
+			sanitizeSubtree(inserted as Element);
+		}
+		target.insertBefore(inserted, current);
+	});
+	for (const extra of Array.from(target.childNodes).slice(sourceChildren.length)) {
+		target.removeChild(extra);
+	}
+}
+
+export function applySandboxHtml(root: Element, html: string): void {
+	const doc = root.ownerDocument;
+	const template = doc.createElement("template");
+	template.innerHTML = html;
+	const next = template.content.firstElementChild;
+	if (!next) {
+		throw new Error("Sandbox returned an empty snapshot.");
+	}
+	syncAttributes(root, next);
+	morphChildren(root, next, doc);
+}
@@ -0,0 +1,100 @@
+import type { JsonSchema } from "./types";
+
+export type SchemaIssue = {
+	path: string;
+	message: string;
+};
+
+export class SchemaValidationError extends Error {
+	public readonly issues: SchemaIssue[];
+
+	public constructor(message: string, issues: SchemaIssue[]) {
+		super(message);
+		this.name = "SchemaValidationError";
+		this.issues = issues;
+	}
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+	!!value && typeof value === "object" && !Array.isArray(value);
+
+function typeOfValue(value: unknown): string {
+	if (value === null) {
+		return "null";
+	}
+	if (Array.isArray(value)) {
+		return "array";
+	}
+	return typeof value;
+}
+
+function matchesType(type: string, value: unknown): boolean {
+	switch (type) {
+		case "null":
+			return value === null;
+		case "array":
+			return Array.isArray(value);
+		case "object":
+			return isPlainObject(value);
+		case "integer":
+			return typeof value === "number" && Number.isInteger(value);
+		case "number":
+			return typeof value === "number" && Number.isFinite(value);
+		case "string":
+		case "boolean":
+			return typeof value === type;
+		default:
+			return true;
+	}
+}
+
+function formatValue(value: unknown): string {
+	const text = JSON.stringify(value);
+	return text === undefined ? String(value) : text;
+}
+
+export function validateJsonSchema(schema: JsonSchema, value: unknown, path: string = "$"): SchemaIssue[] {
+	if (!schema || typeof schema !== "object") {
+		return [];
+	}
+	const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+	if (types.length > 0 && !types.some((type) => matchesType(type, value))) {
+		return [{ path, message: `Expected ${types.join(" | ")}, got ${typeOfValue(value)}.` }];
+	}
+	const issues: SchemaIssue[] = [];
+	if (schema.enum && !schema.enum.some((option) => formatValue(option) === formatValue(value))) {
+		issues.push({
+			path,
+			message: `Expected one of ${schema.enum.map(formatValue).join(", ")}, got ${formatValue(value)}.`,
+		});
+	}
+	if (isPlainObject(value)) {
+		const properties = schema.properties ?? {};
+		for (const key of schema.required ?? []) {
+			if (!Object.prototype.hasOwnProperty.call(value, key)) {
+				issues.push({ path: `${path}.${key}`, message: "Missing required property." });
+			}
+		}
+		for (const [key, propValue] of Object.entries(value)) {
+			const propSchema = properties[key] as JsonSchema | undefined;
+			if (propSchema) {
+				issues.push(...validateJsonSchema(propSchema, propValue, `${path}.${key}`));
+				continue;
+			}
+			if (schema.additionalProperties === false) {
+				issues.push({ path: `${path}.${key}`, message: "Unexpected property." });
+			}
+		}
+	}
+	if (Array.isArray(value) && schema.items) {
+		const itemSchema = schema.items;
+		value.forEach((item, index) => {
+			issues.push(...validateJsonSchema(itemSchema, item, `${path}[${index}]`));
+		});
+	}
+	return issues;
+}
+
+export function formatSchemaIssues(issues: SchemaIssue[]): string {
+	return issues.map((issue) => `${issue.path}: ${issue.message}`).join("\n");
+}
@@ -0,0 +1,159 @@
+import { isNode, nodeToString, nodeToXPath } from "./dom";
+import { tokenizerForModel } from "./tokenizer";
+
+export type SerializeOptions = {
+	root?: Node;
+	maxTokens?: number;
+	model?: string;
+	maxDepth?: number;
+	maxItems?: number;
+	previewChars?: number;
+};
+
+export type ResultFormatter = (result: unknown, options: SerializeOptions) => string;
+
+export type NodePreview = {
+	node: string;
+	xpath: string;
+	html?: string;
+	text?: string;
+};
+
+export const DEFAULT_RESULT_MAX_TOKENS = 4000;
+export const DEFAULT_SERIALIZE_MAX_DEPTH = 8;
+export const DEFAULT_SERIALIZE_MAX_ITEMS = 100;
+export const DEFAULT_NODE_PREVIEW_CHARS = 300;
+
+const TEXT_NODE = 3;
+
+const tagOf = (value: unknown): string => Object.prototype.toString.call(value);
+
+const ERROR_TAG = /^\[object \w*(?:Error|Exception)\]$/;
+
+const isErrorLike = (value: object): value is Error => value instanceof Error || ERROR_TAG.test(tagOf(value));
+
+const isWindow = (value: object): boolean => (value as { window?: unknown }).window === value;
+
+const isNodeList = (value: object): value is ArrayLike<Node> =>
+	typeof (value as NodeList).item === "function" && typeof (value as NodeList).length === "number";
+
+const clip = (text: string, maxChars: number): string =>
+	text.length > maxChars ? `${text.slice(0, maxChars)}…` : text;
+
+function nodePreview(node: Node, root: Node | undefined, previewChars: number): NodePreview {
+	const base = root && (root === node || root.contains(node)) ? root : node.ownerDocument ?? node;
+	const preview = clip(nodeToString(node), previewChars);
+	return {
+		node: node.nodeName.toLowerCase(),
+		xpath: nodeToXPath(node, base),
+		...(node.nodeType === TEXT_NODE ? { text: preview } : { html: preview }),
+	};
+}
+
+export function toSerializable(value: unknown, options: SerializeOptions = {}): unknown {
+	const maxDepth = options.maxDepth ?? DEFAULT_SERIALIZE_MAX_DEPTH;
+	const maxItems = options.maxItems ?? DEFAULT_SERIALIZE_MAX_ITEMS;
+	const previewChars = options.previewChars ?? DEFAULT_NODE_PREVIEW_CHARS;
+	const ancestors = new Set<object>();
+
+	const list = (items: unknown[], depth: number): unknown[] => {
+		const shown = items.slice(0, maxItems).map((item) => visit(item, depth + 1));
+		if (items.length > maxItems) {
+			shown.push(`… ${items.length - maxItems} more items`);
+		}
+		return shown;
+	};
+	const record = (current: object, depth: number): Record<string, unknown> => {
+		const keys = Object.keys(current);
+		const output: Record<string, unknown> = {};
+		for (const key of keys.slice(0, maxItems)) {
+			let entry: unknown;
+			try {
+				entry = (current as Record<string, unknown>)[key];
+			} catch (error) {
+				entry = `[Unreadable: ${error instanceof Error ? error.message : String(error)}]`;
+			}
+			const serialized = visit(entry, depth + 1);
+			if (serialized !== undefined) {
+				output[key] = serialized;
+			}
+		}
+		if (keys.length > maxItems) {
+			output["…"] = `${keys.length - maxItems} more keys`;
+		}
+		return output;
+	};
+	const visit = (current: unknown, depth: number): unknown => {
+		switch (typeof current) {
+			case "bigint":
+				return `${current}n`;
+			case "function":
+				return `[Function ${current.name || "anonymous"}]`;
+			case "symbol":
+				return current.toString();
+			case "object":
+				break;
+			default:
+				return current;
+		}
+		if (current === null) {
+			return null;
+		}
+		if (isNode(current)) {
+			return nodePreview(current, options.root, previewChars);
+		}
+		if (isWindow(current)) {
+			return "[Window]";
+		}
+		if (ancestors.has(current)) {
+			return "[Circular]";
+		}
+		if (isErrorLike(current)) {
+			const { name, message, stack } = current;
+			return { name, message, ...(stack ? { stack } : {}) };
+		}
+		if (depth >= maxDepth) {
+			return Array.isArray(current) ? `[Array(${current.length})]` : "[Object]";
+		}
+		const toJSON = (current as { toJSON?: unknown }).toJSON;
+		if (typeof toJSON === "function") {
+			const json: unknown = toJSON.call(current);
+			if (json !== current) {
+				return visit(json, depth);
+			}
+		}
+		const tag = tagOf(current);
+		ancestors.add(current);
+		try {
+			if (tag === "[object Map]") {
+				const entries = Array.from((current as Map<unknown, unknown>).entries());
+				return { $type: "Map", entries: list(entries, depth) };
+			}
+			if (tag === "[object Set]") {
+				return { $type: "Set", values: list(Array.from(current as Set<unknown>), depth) };
+			}
+			if (Array.isArray(current) || isNodeList(current)) {
+				return list(Array.from(current as ArrayLike<unknown>), depth);
+			}
+			return record(current, depth);
+		} finally {
+			ancestors.delete(current);
+		}
+	};
+	return visit(value, 0);
+}
+
+export function truncateToTokens(text: string, maxTokens: number, model?: string): string {
+	const tokenizer = model ? tokenizerForModel(model) : undefined;
+	const count = tokenizer ? tokenizer.encode(text).length : Math.ceil(text.length / 4);
+	if (count <= maxTokens) {
+		return text;
+	}
+	const keep = Math.floor((text.length * maxTokens) / count);
+	return `${text.slice(0, keep)}\n…[truncated: the result was about ${count} tokens; only the first ${maxTokens} are shown]`;
+}
+
+export function serializeResult(value: unknown, options: SerializeOptions = {}): string {
+	const text = typeof value === "string" ? value : JSON.stringify(toSerializable(value ?? null, options)) ?? "null";
+	return truncateToTokens(text, options.maxTokens ?? DEFAULT_RESULT_MAX_TOKENS, options.model);
+}
@@ -0,0 +1,223 @@
+import { createAgentMessages } from "./agent";
+import { isPinnedMessage, isSummaryMessage, markSummaryMessage, pinMessage } from "./compaction";
+import type { Message } from "./types";
+
+export const SESSION_FORMAT_VERSION = 1;
+
+export type SerializedSession = {
+	version: number;
+	id: string;
+	updatedAt: number;
+	messages: Message[];
+	pinned: number[];
+	summaries: number[];
+};
+
+export type SessionInfo = {
+	id: string;
+	updatedAt: number;
+	messageCount: number;
+};
+
+export type SessionStore = {
+	save: (id: string, messages: Message[]) => Promise<void>;
+	load: (id: string) => Promise<Message[] | null>;
+	list: () => Promise<SessionInfo[]>;
+	delete: (id: string) => Promise<void>;
+};
+
+export type AgentSession = {
+	store: SessionStore;
+	id: string;
+};
+
+export type LocalStorageSessionStoreOptions = {
+	storage?: Storage;
+	prefix?: string;
+};
+
+export type IndexedDbSessionStoreOptions = {
+	indexedDB?: IDBFactory;
+	databaseName?: string;
+	storeName?: string;
+};
+
+const DEFAULT_STORAGE_PREFIX = "browseragentkit:session:";
+const DEFAULT_DATABASE_NAME = "browseragentkit";
+const DEFAULT_OBJECT_STORE = "sessions";
+
+const indexesWhere = (messages: Message[], predicate: (message: Message) => boolean): number[] =>
+	messages.flatMap((message, index) => (predicate(message) ? [index] : []));
+
+export function serializeSession(id: string, messages: Message[], updatedAt: number = Date.now()): SerializedSession {
+	return {
+		version: SESSION_FORMAT_VERSION,
+		id,
+		updatedAt,
+		messages: JSON.parse(JSON.stringify(messages)) as Message[],
+		pinned: indexesWhere(messages, isPinnedMessage),
+		summaries: indexesWhere(messages, isSummaryMessage),
+	};
+}
+
+function migrateSession(data: unknown): SerializedSession {
+	if (Array.isArray(data)) {
+		return { version: SESSION_FORMAT_VERSION, id: "", updatedAt: 0, messages: data as Message[], pinned: [], summaries: [] };
+	}
+	const session = data as Partial<SerializedSession> | null;
+	if (!session || typeof session !== "object" || !Array.isArray(session.messages)) {
+		throw new Error("Invalid session data: expected an object with a messages array");
+	}
+	if (typeof session.version !== "number" || session.version > SESSION_FORMAT_VERSION) {
+		throw new Error(
+			`Unsupported session format version ${String(session.version)} (this build reads up to ${SESSION_FORMAT_VERSION})`
+		);
+	}
+	return {
+		version: SESSION_FORMAT_VERSION,
+		id: session.id ?? "",
+		updatedAt: session.updatedAt ?? 0,
+		messages: session.messages,
+		pinned: session.pinned ?? [],
+		summaries: session.summaries ?? [],
+	};
+}
+
+export function deserializeSession(data: unknown): Message[] {
+	const session = migrateSession(data);
+	const messages = session.messages;
+	for (const index of session.pinned) {
+		if (messages[index]) {
+			pinMessage(messages[index]);
+		}
+	}
+	for (const index of session.summaries) {
+		if (messages[index]) {
+			markSummaryMessage(messages[index]);
+		}
+	}
+	return messages;
+}
+
+const sessionInfo = (session: SerializedSession): SessionInfo => ({
+	id: session.id,
+	updatedAt: session.updatedAt,
+	messageCount: session.messages.length,
+});
+
+const byRecency = (a: SessionInfo, b: SessionInfo) => b.updatedAt - a.updatedAt;
+
+export async function loadAgentMessages(store: SessionStore, id: string): Promise<Message[]> {
+	return (await store.load(id)) ?? createAgentMessages();
+}
+
+export function createMemorySessionStore(): SessionStore {
+	const sessions = new Map<string, string>();
+	return {
+		save: async (id, messages) => {
+			sessions.set(id, JSON.stringify(serializeSession(id, messages)));
+		},
+		load: async (id) => {
+			const json = sessions.get(id);
+			return json ? deserializeSession(JSON.parse(json)) : null;
+		},
+		list: async () =>
+			[...sessions.values()].map((json) => sessionInfo(migrateSession(JSON.parse(json)))).sort(byRecency),
+		delete: async (id) => {
+			sessions.delete(id);
+		},
+	};
+}
+
+export function createLocalStorageSessionStore(options: LocalStorageSessionStoreOptions = {}): SessionStore {
+	const prefix = options.prefix ?? DEFAULT_STORAGE_PREFIX;
+	const resolveStorage = (): Storage => {
+		const storage = options.storage ?? (typeof localStorage !== "undefined" ? localStorage : undefined);
+		if (!storage) {
+			throw new Error("localStorage is not available; pass options.storage");
+		}
+		return storage;
+	};
+	const read = (storage: Storage, key: string): SerializedSession | null => {
+		const json = storage.getItem(key);
+		return json ? migrateSession(JSON.parse(json)) : null;
+	};
+	return {
+		save: async (id, messages) => {
+			resolveStorage().setItem(prefix + id, JSON.stringify(serializeSession(id, messages)));
+		},
+		load: async (id) => {
+			const json = resolveStorage().getItem(prefix + id);
+			return json ? deserializeSession(JSON.parse(json)) : null;
+		},
+		list: async () => {
+			const storage = resolveStorage();
+			const sessions: SessionInfo[] = [];
+			for (let index = 0; index < storage.length; index += 1) {
+				const key = storage.key(index);
+				if (key?.startsWith(prefix)) {
+					const session = read(storage, key);
+					if (session) {
+						sessions.push({ ...sessionInfo(session), id: key.slice(prefix.length) });
+					}
+				}
+			}
+			return sessions.sort(byRecency);
+		},
+		delete: async (id) => {
+			resolveStorage().removeItem(prefix + id);
+		},
+	};
+}
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+	new Promise((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error ?? new Error("IndexedDB request failed"));
+	});
+
+export function createIndexedDbSessionStore(options: IndexedDbSessionStoreOptions = {}): SessionStore {
+	const databaseName = options.databaseName ?? DEFAULT_DATABASE_NAME;
+	const storeName = options.storeName ?? DEFAULT_OBJECT_STORE;
+	let database: Promise<IDBDatabase> | null = null;
+	const open = (): Promise<IDBDatabase> => {
+		if (database) {
+			return database;
+		}
+		const factory = options.indexedDB ?? (typeof indexedDB !== "undefined" ? indexedDB : undefined);
+		if (!factory) {
+			return Promise.reject(new Error("IndexedDB is not available; pass options.indexedDB"));
+		}
+		const request = factory.open(databaseName, 1);
+		request.onupgradeneeded = () => {
+			if (!request.result.objectStoreNames.contains(storeName)) {
+				request.result.createObjectStore(storeName, { keyPath: "id" });
+			}
+		};
+		database = requestResult(request);
+		database.catch(() => {
+			database = null;
+		});
+		return database;
+	};
+	const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+		const db = await open();
+		return requestResult(run(db.transaction(storeName, mode).objectStore(storeName)));
+	};
+	return {
+		save: async (id, messages) => {
+			await withStore("readwrite", (store) => store.put(serializeSession(id, messages)));
+		},
+		load: async (id) => {
+			const record = await withStore("readonly", (store) => store.get(id));
+			return record ? deserializeSession(record) : null;
+		},
+		list: async () => {
+			const records = await withStore("readonly", (store) => store.getAll());
+			return (records as unknown[]).map((record) => sessionInfo(migrateSession(record))).sort(byRecency);
+		},
+		delete: async (id) => {
+			await withStore("readwrite", (store) => store.delete(id));
+		},
+	};
+}
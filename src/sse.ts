@@ -0,0 +1,86 @@
+export type SseMessage = {
+	event?: string;
+	data: string;
+	id?: string;
+};
+
+export type ByteStream = ReadableStream<Uint8Array> | AsyncIterable<Uint8Array | string>;
+
+export async function* readStreamChunks(body: ByteStream): AsyncGenerator<string> {
+	const decoder = new TextDecoder();
+	if ("getReader" in body) {
+		const reader = body.getReader();
+		try {
+			while (true) {
+				const { done, value } = await reader.read();
+				if (done) {
+					break;
+				}
+				yield decoder.decode(value, { stream: true });
+			}
+		} finally {
+			reader.releaseLock();
+		}
+	} else {
+		for await (const chunk of body) {
+			yield typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true });
+		}
+	}
+	const rest = decoder.decode();
+	if (rest) {
+		yield rest;
+	}
+}
+
+export async function* readLines(body: ByteStream): AsyncGenerator<string> {
+	let buffer = "";
+	for await (const chunk of readStreamChunks(body)) {
+		buffer += chunk;
+		const lines = buffer.split("\n");
+		buffer = lines.pop() ?? "";
+		for (const line of lines) {
+			yield line.endsWith("\r") ? line.slice(0, -1) : line;
+		}
+	}
+	if (buffer) {
+		yield buffer.endsWith("\r") ? buffer.slice(0, -1) : buffer;
+	}
+}
+
+export async function* readSseMessages(body: ByteStream): AsyncGenerator<SseMessage> {
+	let event: string | undefined;
+	let id: string | undefined;
+	let data: string[] = [];
+	const flush = (): SseMessage | null => {
+		const message = data.length ? { event, data: data.join("\n"), id } : null;
+		event = undefined;
+		data = [];
+		return message;
+	};
+	for await (const line of readLines(body)) {
+		if (line === "") {
+			const message = flush();
+			if (message) {
+				yield message;
+			}
+			continue;
+		}
+		if (line.startsWith(":")) {
+			continue;
+		}
+		const colon = line.indexOf(":");
+		const field = colon === -1 ? line : line.slice(0, colon);
+		const value = colon === -1 ? "" : line.slice(colon + 1).replace(/^ /, "");
+		if (field === "event") {
+			event = value;
+		} else if (field === "data") {
+			data.push(value);
+		} else if (field === "id") {
+			id = value;
+		}
+	}
+	const message = flush();
+	if (message) {
+		yield message;
+	}
+}
@@ -0,0 +1,236 @@
+import { stripSnapshotSuffix } from "./models";
+import type { Message } from "./types";
+
+export type BpeRanks = Map<string, number>;
+
+export type Tokenizer = {
+	name: string;
+	encode: (text: string) => number[];
+};
+
+export type BpeTokenizerOptions = {
+	name: string;
+	ranks: BpeRanks;
+	pattern?: RegExp;
+};
+
+const CONTRACTIONS = "'(?:[sS]|[tT]|[rR][eE]|[vV][eE]|[mM]|[lL][lL]|[dD])";
+
+export const CL100K_PATTERN = new RegExp(
+	[
+		CONTRACTIONS,
+		"[^\\r\\n\\p{L}\\p{N}]?\\p{L}+",
+		"\\p{N}{1,3}",
+		" ?[^\\s\\p{L}\\p{N}]+[\\r\\n]*",
+		"\\s*[\\r\\n]+",
+		"\\s+(?!\\S)",
+		"\\s+",
+	].join("|"),
+	"gu"
+);
+
+export const O200K_PATTERN = new RegExp(
+	[
+		`[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]*[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]+(?:${CONTRACTIONS})?`,
+		`[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]+[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]*(?:${CONTRACTIONS})?`,
+		"\\p{N}{1,3}",
+		" ?[^\\s\\p{L}\\p{N}]+[\\r\\n/]*",
+		"\\s*[\\r\\n]+",
+		"\\s+(?!\\S)",
+		"\\s+",
+	].join("|"),
+	"gu"
+);
+
+const TOKENS_PER_MESSAGE = 3;
+const TOKENS_PER_REPLY = 3;
+
+const tokenizers = new Map<string, Tokenizer>();
+const modelTokenizers: Array<{ model: string | RegExp; tokenizer: string }> = [
+	{ model: /^(gpt-3\.5|gpt-4(?![o.])|text-embedding-3)/, tokenizer: "cl100k_base" },
+	{ model: /^(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|o1|o3|o4)/, tokenizer: "o200k_base" },
+];
+const messageTokenCache = new WeakMap<Message, Map<string, number>>();
+
+function toByteString(text: string): string {
+	const bytes = new TextEncoder().encode(text);
+	let result = "";
+	for (const byte of bytes) {
+		result += String.fromCharCode(byte);
+	}
+	return result;
+}
+
+function bytePairEncode(piece: string, ranks: BpeRanks): number[] {
+	const direct = ranks.get(piece);
+	if (direct !== undefined) {
+		return [direct];
+	}
+	const parts = piece.split("");
+	while (parts.length > 1) {
+		let bestIndex = -1;
+		let bestRank = Number.POSITIVE_INFINITY;
+		for (let i = 0; i < parts.length - 1; i += 1) {
+			const rank = ranks.get(parts[i] + parts[i + 1]);
+			if (rank !== undefined && rank < bestRank) {
+				bestRank = rank;
+				bestIndex = i;
+			}
+		}
+		if (bestIndex === -1) {
+			break;
+		}
+		parts.splice(bestIndex, 2, parts[bestIndex] + parts[bestIndex + 1]);
+	}
+	return parts.map((part) => {
+		const rank = ranks.get(part);
+		if (rank === undefined) {
+			throw new Error(`BPE ranks are missing byte 0x${part.charCodeAt(0).toString(16)}.`);
+		}
+		return rank;
+	});
+}
+
+function assertByteRanks(ranks: BpeRanks): void {
+	for (let byte = 0; byte < 256; byte += 1) {
+		if (!ranks.has(String.fromCharCode(byte))) {
+			throw new Error(`BPE ranks are missing byte 0x${byte.toString(16)}.`);
+		}
+	}
+}
+
+export function createBpeTokenizer(options: BpeTokenizerOptions): Tokenizer {
+	const pattern = new RegExp((options.pattern ?? O200K_PATTERN).source, "gu");
+	const { ranks } = options;
+	assertByteRanks(ranks);
+	return {
+		name: options.name,
+		encode: (text) => {
+			const tokens: number[] = [];
+			for (const match of text.matchAll(pattern)) {
+				tokens.push(...bytePairEncode(toByteString(match[0]), ranks));
+			}
+			return tokens;
+		},
+	};
+}
+
+export function parseTiktokenRanks(source: string): BpeRanks {
+	const ranks: BpeRanks = new Map();
+	for (const line of source.split(/\r?\n/)) {
+		const trimmed = line.trim();
+		if (!trimmed) {
+			continue;
+		}
+		const [token, rank] = trimmed.split(/\s+/);
+		const parsedRank = Number(rank);
+		if (!token || !Number.isInteger(parsedRank)) {
+			throw new Error(`Invalid BPE rank line: ${line}`);
+		}
+		ranks.set(atob(token), parsedRank);
+	}
+	return ranks;
+}
+
+export async function loadBpeTokenizer(options: {
+	name: string;
+	url?: string;
+	source?: string;
+	pattern?: RegExp;
+	fetch?: typeof fetch;
+}): Promise<Tokenizer> {
+	let source = options.source;
+	if (source === undefined) {
+		if (!options.url) {
+			throw new Error("loadBpeTokenizer needs a url or an inline source.");
+		}
+		const fetchImpl = options.fetch ?? fetch;
+		const response = await fetchImpl(options.url);
+		if (!response.ok) {
+			throw new Error(`Failed to load BPE ranks from ${options.url}: ${response.status}`);
+		}
+		source = await response.text();
+	}
+	const tokenizer = createBpeTokenizer({
+		name: options.name,
+		ranks: parseTiktokenRanks(source),
+		pattern: options.pattern,
+	});
+	registerTokenizer(tokenizer);
+	return tokenizer;
+}
+
+export function registerTokenizer(tokenizer: Tokenizer): void {
+	tokenizers.set(tokenizer.name, tokenizer);
+}
+
+export function registerModelTokenizer(model: string | RegExp, tokenizer: string): void {
+	modelTokenizers.unshift({ model, tokenizer });
+}
+
+export function tokenizerForModel(model: string): Tokenizer | undefined {
+	const normalized = model.toLowerCase();
+	for (const entry of modelTokenizers) {
+		const matches =
+			typeof entry.model === "string"
+				? [normalized, stripSnapshotSuffix(normalized)].includes(entry.model.toLowerCase())
+				: entry.model.test(normalized);
+		if (matches) {
+			const tokenizer = tokenizers.get(entry.tokenizer);
+			if (tokenizer) {
+				return tokenizer;
+			}
+		}
+	}
+	return undefined;
+}
+
+export function messageToText(message: Message): string {
+	if ("role" in message && typeof message.role === "string") {
+		return `${message.role}:${typeof message.content === "string" ? message.content : JSON.stringify(message.content)}`;
+	}
+	return JSON.stringify(message);
+}
+
+function estimateTokenCount(messages: Message[]): number {
+	const text = messages.map((message) => messageToText(message)).join("\n");
+	const length = text.length;
+	if (length === 0) {
+		return 0;
+	}
+	return Math.ceil(length / 4);
+}
+
+function countMessageTokens(message: Message, tokenizer: Tokenizer): number {
+	let cached = messageTokenCache.get(message);
+	const hit = cached?.get(tokenizer.name);
+	if (hit !== undefined) {
+		return hit;
+	}
+	const count = tokenizer.encode(messageToText(message)).length + TOKENS_PER_MESSAGE;
+	if (!cached) {
+		cached = new Map();
+		messageTokenCache.set(message, cached);
+	}
+	cached.set(tokenizer.name, count);
+	return count;
+}
+
+export function countTokensWith(messages: Message[], tokenizer: Tokenizer): number {
+	if (messages.length === 0) {
+		return 0;
+	}
+	return messages.reduce((total, message) => total + countMessageTokens(message, tokenizer), TOKENS_PER_REPLY);
+}
+
+export async function countTokensForModel(messages: Message[], model: string): Promise<number> {
+	const tokenizer = tokenizerForModel(model);
+	if (!tokenizer) {
+		return estimateTokenCount(messages);
+	}
+	try {
+		return countTokensWith(messages, tokenizer);
+	} catch {
+		return estimateTokenCount(messages);
+	}
+}
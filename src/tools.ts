@@ -1,8 +1,41 @@
-import type { JsonSchema, ToolAction, ToolContext, ToolDefinition } from "./types";
+import { computeA11ySnapshot, formatA11ySnapshot, isElementRef, resolveElementRef } from "./a11y";
+import {
+	createConsoleCapture,
+	DEFAULT_CAPTURE_MAX_CHARS,
+	limitCaptured,
+	resolveCaptureOptions,
+	ScriptError,
+	toCapturedError,
+	type CaptureOptions,
+	type CaptureToolOptions,
+} from "./capture";
+import { nodeToString, nodeToXPath } from "./dom";
+import { applySandboxHtml, SandboxError, type Sandbox, type SandboxRequest, type SandboxToolOptions } from "./sandbox";
+import { validateJsonSchema, type SchemaIssue } from "./schema";
+import {
+	DEFAULT_RESULT_MAX_TOKENS,
+	serializeResult,
+	truncateToTokens,
+	type ResultFormatter,
+	type SerializeOptions,
+} from "./serialize";
+import type { JsonSchema, ToolAction, ToolContext, ToolDefinition, ToolOptions } from "./types";
 
 const jsInterpreterDescription = `Run JavaScript inside the browser with DOM helpers.
 Use it to modify the DOM and return results. jQuery (\`$\`) is available.
-Helpers: \`x()\`, \`replaceSubtree()\`, \`diffSubtree()\`, \`viewRoot\`, \`document\`, \`window\`.`;
+Helpers: \`x()\`, \`replaceSubtree()\`, \`diffSubtree()\`, \`viewRoot\`, \`document\`, \`window\`.
+\`x()\` also accepts element refs such as \`@e12\` from a11ySnapshot.
+\`signal\` is an AbortSignal that fires when the call times out or the run is cancelled; check it in long loops.`;
+
+const sandboxedJsDescription = `Run JavaScript in an isolated sandbox against a copy of the view root.
+DOM changes are applied back when the code finishes. Return JSON-serializable results.
+Helpers: \`x()\`, \`replaceSubtree()\`, \`diffSubtree()\`, \`viewRoot\`.
+The code cannot reach the page's window, DOM or storage, make network requests or use jQuery.`;
+
+const captureNote =
+	" Console output and uncaught errors are captured: the call returns { result, logs, errors } and a thrown error includes the logs.";
+
+export type InterpreterToolOptions = SandboxToolOptions & CaptureToolOptions;
 
 type RuntimeEnv = {
 	document?: Document;
@@ -18,6 +51,8 @@ type InterpreterHelpers = {
 	document: Document;
 	window: Window | undefined;
 	$: unknown;
+	signal?: AbortSignal;
+	console: Pick<Console, "log" | "info" | "warn" | "error">;
 };
 
 const jqueryCache = new WeakMap<Window, Promise<unknown | undefined>>();
@@ -58,6 +93,18 @@ function normalizeCallableName(name: string, fallback: string): string {
 	return fallback;
 }
 
+export class ToolTimeoutError extends Error {
+	public readonly toolName: string;
+	public readonly timeoutMs: number;
+
+	public constructor(toolName: string, timeoutMs: number) {
+		super(`Tool ${toolName} did not finish within ${timeoutMs}ms and was cancelled.`);
+		this.name = "ToolTimeoutError";
+		this.toolName = toolName;
+		this.timeoutMs = timeoutMs;
+	}
+}
+
 export class Tool {
 	public readonly kind = "tool" as const;
 	public readonly name: string;
@@ -65,14 +112,18 @@ export class Tool {
 	public readonly description?: string;
 	public readonly inputSchema: JsonSchema;
 	public readonly outputSchema: JsonSchema;
+	public readonly parallel: boolean;
+	public readonly timeoutMs?: number;
 	private readonly action: ToolAction;
+	private readonly resultFormatter?: ResultFormatter;
 
 	public constructor(
 		name: string,
 		description: string | undefined,
 		action: ToolAction,
 		inputSchema: JsonSchema,
-		outputSchema: JsonSchema
+		outputSchema: JsonSchema,
+		options: ToolOptions = {}
 	) {
 		this.name = name;
 		this.callName = normalizeCallableName(name, "tool");
@@ -80,12 +131,34 @@ export class Tool {
 		this.action = action;
 		this.inputSchema = inputSchema;
 		this.outputSchema = outputSchema;
+		this.parallel = options.parallel ?? false;
+		this.timeoutMs = options.timeoutMs;
+		this.resultFormatter = options.formatResult;
 	}
 
 	public run(args: unknown, ctx: ToolContext): Promise<unknown> | unknown {
 		return this.action(args, ctx);
 	}
 
+	public formatResult(result: unknown, options: SerializeOptions = {}): string {
+		if (!this.resultFormatter) {
+			return serializeResult(result, options);
+		}
+		return truncateToTokens(
+			this.resultFormatter(result, options),
+			options.maxTokens ?? DEFAULT_RESULT_MAX_TOKENS,
+			options.model
+		);
+	}
+
+	public validateArgs(args: unknown): SchemaIssue[] {
+		return validateJsonSchema(this.inputSchema, args);
+	}
+
+	public validateResult(result: unknown): SchemaIssue[] {
+		return validateJsonSchema(this.outputSchema, result);
+	}
+
 	public toToolDefinition(): ToolDefinition {
 		return {
 			type: "function",
@@ -148,6 +221,13 @@ function findNodesByXPath(xpath: string, runtime?: RuntimeEnv): { doc: Document;
 	}
 	const doc = ensureDocument(runtime);
 	const root = getViewRoot(doc, runtime);
+	if (isElementRef(xpath)) {
+		const element = resolveElementRef(xpath, doc);
+		if (!element || !(root === element || root.contains(element))) {
+			throw new Error(`Unknown element ref ${xpath.trim()}; take a new a11ySnapshot.`);
+		}
+		return { doc, root, nodes: [element] };
+	}
 	const scoped = scopeXpath(xpath, root);
 	const XPathResultRef = getXPathResult(doc);
 	const result = doc.evaluate(scoped, root, null, XPathResultRef.ORDERED_NODE_SNAPSHOT_TYPE, null);
@@ -214,6 +294,66 @@ async function ensureJQuery(runtime?: RuntimeEnv): Promise<unknown | undefined>
 	return loader;
 }
 
+function sandboxRoot(runtime?: RuntimeEnv): Element {
+	const root = runtime?.viewRoot ?? ensureDocument(runtime).body;
+	if (!root) {
+		throw new Error("Sandboxed code needs a viewRoot element.");
+	}
+	return root;
+}
+
+async function runSandboxed(
+	sandbox: Sandbox,
+	request: Omit<SandboxRequest, "html" | "capture">,
+	root: Element,
+	signal?: AbortSignal,
+	capture?: CaptureOptions | null
+): Promise<unknown> {
+	const maxChars = capture?.maxChars ?? DEFAULT_CAPTURE_MAX_CHARS;
+	const output = await sandbox
+		.run({ ...request, html: root.outerHTML, ...(capture ? { capture: { maxChars } } : {}) }, signal)
+		.catch((error: unknown) => {
+			if (capture && error instanceof SandboxError && error.captured) {
+				const remote = { name: error.remoteName, message: error.message, stack: error.stack };
+				throw new ScriptError(remote, limitCaptured(error.captured.logs, error.captured.errors, maxChars));
+			}
+			throw error;
+		});
+	applySandboxHtml(root, output.html);
+	if (!capture) {
+		return output.result;
+	}
+	const captured = output.captured ?? { logs: [], errors: [] };
+	return { result: output.result, ...limitCaptured(captured.logs, captured.errors, maxChars) };
+}
+
+function evaluateSnippet(code: string, isAsync: boolean, helpers: InterpreterHelpers): unknown {
+	const prelude = "const { x, replaceSubtree, diffSubtree, viewRoot, document, window, $, signal, console } = helpers;";
+	const fn = new Function(
+		"helpers",
+		isAsync ? `${prelude}return (async () => { ${code} })()` : `${prelude}return (function () { ${code} })()`
+	);
+	return fn(helpers);
+}
+
+async function runSnippet(
+	code: string,
+	isAsync: boolean,
+	helpers: InterpreterHelpers,
+	capture: CaptureOptions | null
+): Promise<unknown> {
+	if (!capture) {
+		return evaluateSnippet(code, isAsync, helpers);
+	}
+	const recorder = createConsoleCapture({ ...capture, window: helpers.window });
+	try {
+		const result = await evaluateSnippet(code, isAsync, { ...helpers, console: recorder.console });
+		return { result, ...recorder.finish() };
+	} catch (error) {
+		throw new ScriptError(error, recorder.finish());
+	}
+}
+
 function resolveNode(target: unknown, helpers: { x: (xpath: string, root?: Node) => Node[] }): Node | null {
 	if (!target) {
 		return null;
@@ -231,55 +371,6 @@ function resolveNode(target: unknown, helpers: { x: (xpath: string, root?: Node)
 	return null;
 }
 
-function nodeToString(node: Node | null): string {
-	if (!node) {
-		return "";
-	}
-	if (node.nodeType === Node.DOCUMENT_FRAGMENT_NODE) {
-		return Array.from(node.childNodes)
-			.map((child) => nodeToString(child))
-			.join("");
-	}
-	if (node.nodeType === Node.DOCUMENT_NODE) {
-		const doc = node as Document;
-		return doc.documentElement?.outerHTML ?? "";
-	}
-	if (node.nodeType === Node.ELEMENT_NODE) {
-		return (node as Element).outerHTML;
-	}
-	return node.textContent ?? "";
-}
-
-function nodeToXPath(node: Node, root: Node): string {
-	if (node === root) {
-		return "/";
-	}
-	const segments: string[] = [];
-	let current: Node | null = node;
-	while (current && current !== root) {
-		if (current.nodeType !== Node.ELEMENT_NODE) {
-			current = current.parentNode;
-			continue;
-		}
-		const element = current as Element;
-		const tag = element.tagName.toLowerCase();
-		let index = 1;
-		let sibling = element.previousElementSibling;
-		while (sibling) {
-			if (sibling.tagName.toLowerCase() === tag) {
-				index += 1;
-			}
-			sibling = sibling.previousElementSibling;
-		}
-		segments.push(`${tag}[${index}]`);
-		current = element.parentNode;
-	}
-	if (current !== root) {
-		return "/";
-	}
-	return `/${segments.reverse().join("/")}`;
-}
-
 function formatNodeLabel(node: Element): string {
 	const tag = node.tagName.toLowerCase();
 	const id = node.id ? `#${node.id}` : "";
@@ -296,7 +387,7 @@ function truncateLine(line: string, maxLength: number): string {
 }
 
 async function createInterpreterHelpers(
-	runtime?: RuntimeEnv,
+	runtime?: RuntimeEnv & { signal?: AbortSignal },
 	options: { requireJQuery?: boolean } = {}
 ): Promise<InterpreterHelpers> {
 	const doc = ensureDocument(runtime);
@@ -325,6 +416,10 @@ async function createInterpreterHelpers(
 				}
 			}
 		}
+		if (isElementRef(xpath)) {
+			const element = resolveElementRef(xpath, doc);
+			return element && (baseRoot === element || baseRoot.contains(element)) ? [element] : [];
+		}
 		const scoped = scopeXpath(xpath, baseRoot);
 		const result = doc.evaluate(
 			scoped,
@@ -383,10 +478,12 @@ async function createInterpreterHelpers(
 		document: doc,
 		window: win,
 		$: jq,
+		signal: runtime?.signal,
+		console,
 	};
 }
 
-export function jsInterpreterTool(): Tool {
+export function jsInterpreterTool(options: InterpreterToolOptions = {}): Tool {
 	const inputSchema = {
 		type: "object",
 		properties: {
@@ -400,27 +497,25 @@ export function jsInterpreterTool(): Tool {
 		type: ["string", "number", "boolean", "object", "array", "null"],
 		description: "JSON-serializable result from the JavaScript snippet.",
 	};
+	const capture = resolveCaptureOptions(options.capture);
+	const description = options.sandbox ? sandboxedJsDescription : jsInterpreterDescription;
 	return new Tool(
 		"jsInterpreter",
-		jsInterpreterDescription,
+		capture ? `${description}${captureNote}` : description,
 		async (args: unknown, ctx: ToolContext): Promise<unknown> => {
 			const { code, async } = args as { code: string; async?: boolean | null };
 			const isAsync = async ?? false;
-			const helpers = await createInterpreterHelpers(ctx as RuntimeEnv | undefined);
-			if (isAsync) {
-				const fn = new Function(
-					"helpers",
-					`const { x, replaceSubtree, diffSubtree, viewRoot, document, window, $ } = helpers;` +
-						`return (async () => { ${code} })()`
+			if (options.sandbox) {
+				return runSandboxed(
+					options.sandbox,
+					{ code, async: isAsync },
+					sandboxRoot(ctx as RuntimeEnv | undefined),
+					ctx.signal,
+					capture
 				);
-				return await fn(helpers);
 			}
-			const fn = new Function(
-				"helpers",
-				`const { x, replaceSubtree, diffSubtree, viewRoot, document, window, $ } = helpers;` +
-					`return (function () { ${code} })()`
-			);
-			return fn(helpers);
+			const helpers = await createInterpreterHelpers(ctx);
+			return runSnippet(code, isAsync, helpers, capture);
 		},
 		inputSchema,
 		outputSchema
@@ -430,6 +525,9 @@ export function jsInterpreterTool(): Tool {
 const domSummaryDescription =
 	"Return a Markdown tree of the DOM scoped to the view root. Use '/' for the root, '//' for descendants. Lines are truncated at 2048 chars.";
 
+const a11ySnapshotDescription =
+	"Return a compact accessibility tree of the view root: one line per element with its ARIA role, accessible name, value and states (disabled, checked, expanded, ...), plus visible text. Hidden nodes are skipped. Each element has a stable ref such as @e12 that other DOM tools and x() accept in place of an XPath; refs stay the same across snapshots while the element is in the page.";
+
 const domSubtreeHtmlDescription =
 	"Return the outerHTML of the first node matching the XPath selector (scoped to view root; use '/' for root and '//' for descendants). Return an empty string if none.";
 
@@ -442,9 +540,24 @@ const domRemoveDescription =
 const domBindEventDescription =
 	"Attach a JS event handler to all nodes matching the XPath selector (scoped to view root; use '/' for root and '//' for descendants). Handler receives event, element, document, window, $. Use this instead of injecting <script>. Returns ok=false if no match.";
 
+const sandboxedBindEventDescription =
+	"Attach a JS event handler to all nodes matching the XPath selector (scoped to view root; use '/' for root and '//' for descendants). The handler runs in an isolated sandbox against a copy of the view root and receives event (type, value, checked, key), element, x, replaceSubtree, diffSubtree and viewRoot; DOM changes are applied back afterwards and submit events are always prevented. Returns ok=false if no match.";
+
 const jsRunDescription =
 	"Run a JavaScript snippet inside the browser and return its result. Use jQuery ($) for DOM/event work.";
 
+function sandboxEventInfo(event: Event, element: Element, root: Element): SandboxRequest["event"] {
+	const field = element as Partial<HTMLInputElement>;
+	const key = (event as Partial<KeyboardEvent>).key;
+	return {
+		type: event.type,
+		targetXPath: nodeToXPath(element, root),
+		...(typeof field.value === "string" ? { value: field.value } : {}),
+		...(typeof field.checked === "boolean" ? { checked: field.checked } : {}),
+		...(typeof key === "string" ? { key } : {}),
+	};
+}
+
 export function domSummaryTool(): Tool {
 	const inputSchema = {
 		type: "object",
@@ -517,7 +630,52 @@ export function domSummaryTool(): Tool {
 			return lines.join("\n");
 		},
 		inputSchema,
-		outputSchema
+		outputSchema,
+		{ parallel: true }
+	);
+}
+
+export function a11ySnapshotTool(): Tool {
+	const inputSchema = {
+		type: "object",
+		properties: {
+			xpath: { type: ["string", "null"], description: "XPath selector or element ref for the subtree; null for the view root." },
+			interactiveOnly: { type: ["boolean", "null"], description: "List only interactive elements (buttons, links, form fields, focusable nodes)." },
+			maxNodes: { type: ["number", "null"], description: "Maximum number of elements to include." },
+		},
+		required: ["xpath", "interactiveOnly", "maxNodes"],
+		additionalProperties: false,
+	};
+	const outputSchema = {
+		type: "string",
+		description: "Indented accessibility tree with element refs.",
+	};
+	return new Tool(
+		"a11ySnapshot",
+		a11ySnapshotDescription,
+		(args: unknown, ctx: ToolContext): string => {
+			const { xpath, interactiveOnly, maxNodes } = args as {
+				xpath?: string | null;
+				interactiveOnly?: boolean | null;
+				maxNodes?: number | null;
+			};
+			const runtime = ctx as RuntimeEnv | undefined;
+			const doc = ensureDocument(runtime);
+			const target = xpath ? resolveNodeByXPath(xpath, runtime).node : getViewRoot(doc, runtime);
+			const root = target.nodeType === Node.DOCUMENT_NODE ? (target as Document).documentElement : target;
+			if (!root || root.nodeType !== Node.ELEMENT_NODE) {
+				throw new Error("Accessibility snapshot root must be an element.");
+			}
+			const snapshot = computeA11ySnapshot(root as Element, {
+				window: ctx.window ?? doc.defaultView ?? undefined,
+				interactiveOnly: interactiveOnly ?? false,
+				...(Number.isFinite(maxNodes) ? { maxNodes: Math.max(0, maxNodes as number) } : {}),
+			});
+			return formatA11ySnapshot(snapshot);
+		},
+		inputSchema,
+		outputSchema,
+		{ parallel: true }
 	);
 }
 
@@ -525,7 +683,7 @@ export function domSubtreeHtmlTool(): Tool {
 	const inputSchema = {
 		type: "object",
 		properties: {
-			xpath: { type: "string", description: "XPath selector for the target node." },
+			xpath: { type: "string", description: "XPath selector or element ref (e.g. @e12) for the target node." },
 		},
 		required: ["xpath"],
 		additionalProperties: false,
@@ -544,7 +702,8 @@ export function domSubtreeHtmlTool(): Tool {
 			return nodeToString(node);
 		},
 		inputSchema,
-		outputSchema
+		outputSchema,
+		{ parallel: true }
 	);
 }
 
@@ -552,7 +711,7 @@ export function domAppendHtmlTool(): Tool {
 	const inputSchema = {
 		type: "object",
 		properties: {
-			xpath: { type: "string", description: "XPath selector for the target node." },
+			xpath: { type: "string", description: "XPath selector or element ref (e.g. @e12) for the target node." },
 			html: { type: "string", description: "HTML string to append." },
 		},
 		required: ["xpath", "html"],
@@ -596,7 +755,7 @@ export function domRemoveTool(): Tool {
 	const inputSchema = {
 		type: "object",
 		properties: {
-			xpath: { type: "string", description: "XPath selector for the nodes to remove." },
+			xpath: { type: "string", description: "XPath selector or element ref (e.g. @e12) for the nodes to remove." },
 		},
 		required: ["xpath"],
 		additionalProperties: false,
@@ -630,11 +789,11 @@ export function domRemoveTool(): Tool {
 	);
 }
 
-export function domBindEventTool(): Tool {
+export function domBindEventTool(options: SandboxToolOptions = {}): Tool {
 	const inputSchema = {
 		type: "object",
 		properties: {
-			xpath: { type: "string", description: "XPath selector for the target nodes." },
+			xpath: { type: "string", description: "XPath selector or element ref (e.g. @e12) for the target nodes." },
 			event: { type: "string", description: "Event name (e.g. click, submit)." },
 			code: { type: "string", description: "Handler code to execute." },
 		},
@@ -652,12 +811,34 @@ export function domBindEventTool(): Tool {
 	};
 	return new Tool(
 		"domBindEvent",
-		domBindEventDescription,
+		options.sandbox ? sandboxedBindEventDescription : domBindEventDescription,
 		async (args: unknown, ctx: ToolContext): Promise<{ ok: boolean; attached: number }> => {
 			const { xpath, event, code } = args as { xpath: string; event: string; code: string };
 			const { doc, nodes } = findNodesByXPath(xpath, ctx as RuntimeEnv | undefined);
 			const win = ctx.window ?? doc.defaultView ?? (typeof window !== "undefined" ? window : undefined);
+			const emit = ctx.emit;
+			const reportHandlerError = (error: unknown, element: Element, root: Node) => {
+				emit?.({ type: "handler.error", event, xpath: nodeToXPath(element, root), error: toCapturedError(error) });
+				(win as (Window & { reportError?: (error: unknown) => void }) | undefined)?.reportError?.(error);
+			};
+			const sandbox = options.sandbox;
+			if (sandbox) {
+				const root = sandboxRoot(ctx as RuntimeEnv | undefined);
+				const elements = nodes.filter((node): node is Element => node.nodeType === Node.ELEMENT_NODE);
+				for (const element of elements) {
+					element.addEventListener(event, (ev) => {
+						if (ev.type === "submit") {
+							ev.preventDefault();
+						}
+						runSandboxed(sandbox, { code, event: sandboxEventInfo(ev, element, root) }, root).catch(
+							(error: unknown) => reportHandlerError(error, element, root)
+						);
+					});
+				}
+				return { ok: elements.length > 0, attached: elements.length };
+			}
 			const jq = await ensureJQuery(ctx as RuntimeEnv | undefined);
+			const rootNode = getViewRoot(doc, ctx as RuntimeEnv | undefined);
 			const handler = new Function(
 				"event",
 				"element",
@@ -672,7 +853,16 @@ export function domBindEventTool(): Tool {
 					continue;
 				}
 				const element = node as Element;
-				element.addEventListener(event, (ev) => handler(ev, element, doc, win ?? undefined, jq));
+				element.addEventListener(event, (ev) => {
+					try {
+						const result = handler(ev, element, doc, win ?? undefined, jq) as unknown;
+						if (result instanceof Promise) {
+							result.catch((error: unknown) => reportHandlerError(error, element, rootNode));
+						}
+					} catch (error) {
+						reportHandlerError(error, element, rootNode);
+					}
+				});
 				attached += 1;
 			}
 			return { ok: attached > 0, attached };
@@ -682,7 +872,7 @@ export function domBindEventTool(): Tool {
 	);
 }
 
-export function jsRunTool(): Tool {
+export function jsRunTool(options: InterpreterToolOptions = {}): Tool {
 	const inputSchema = {
 		type: "object",
 		properties: {
@@ -696,29 +886,27 @@ export function jsRunTool(): Tool {
 		type: ["string", "number", "boolean", "object", "array", "null"],
 		description: "JSON-serializable result from the JavaScript snippet.",
 	};
+	const capture = resolveCaptureOptions(options.capture);
+	const description = options.sandbox ? sandboxedJsDescription : jsRunDescription;
 	return new Tool(
 		"jsRun",
-		jsRunDescription,
+		capture ? `${description}${captureNote}` : description,
 		async (args: unknown, ctx: ToolContext): Promise<unknown> => {
 			const { code, async } = args as { code: string; async?: boolean | null };
 			const isAsync = async ?? false;
-			const helpers = await createInterpreterHelpers(ctx as RuntimeEnv | undefined, {
-				requireJQuery: true,
-			});
-			if (isAsync) {
-				const fn = new Function(
-					"helpers",
-					`const { x, replaceSubtree, diffSubtree, viewRoot, document, window, $ } = helpers;` +
-						`return (async () => { ${code} })()`
+			if (options.sandbox) {
+				return runSandboxed(
+					options.sandbox,
+					{ code, async: isAsync },
+					sandboxRoot(ctx as RuntimeEnv | undefined),
+					ctx.signal,
+					capture
 				);
-				return await fn(helpers);
 			}
-			const fn = new Function(
-				"helpers",
-				`const { x, replaceSubtree, diffSubtree, viewRoot, document, window, $ } = helpers;` +
-					`return (function () { ${code} })()`
-			);
-			return fn(helpers);
+			const helpers = await createInterpreterHelpers(ctx, {
+				requireJQuery: true,
+			});
+			return runSnippet(code, isAsync, helpers, capture);
 		},
 		inputSchema,
 		outputSchema
@@ -4,6 +4,14 @@ import type {
 	Tool as ResponseTool,
 } from "openai/resources/responses/responses";
 import type { Either } from "fp-ts/lib/Either.js";
+import type { CapturedError } from "./capture";
+import type { CheckpointHandler, ResolvedPendingCall, ResumeState } from "./checkpoint-format";
+import type { CompactionOption } from "./compaction";
+import type { DomChangeSummary, DomHistory } from "./dom-history";
+import type { SchemaIssue } from "./schema";
+import type { ResultFormatter } from "./serialize";
+import type { AgentSession } from "./session";
+import type { UsageBudget, UsageLedger, UsageTotals } from "./usage";
 
 export type JsonSchema = {
 	type: string | string[];
@@ -12,6 +20,7 @@ export type JsonSchema = {
 	required?: string[];
 	additionalProperties?: boolean;
 	items?: JsonSchema;
+	enum?: unknown[];
 };
 
 export type ToolContext = {
@@ -19,10 +28,17 @@ export type ToolContext = {
 	document?: Document;
 	window?: Window;
 	signal?: AbortSignal;
+	emit?: (event: AgentEvent) => void;
 };
 
 export type ToolAction = (args: unknown, ctx: ToolContext) => Promise<unknown> | unknown;
 
+export type ToolOptions = {
+	parallel?: boolean;
+	timeoutMs?: number;
+	formatResult?: ResultFormatter;
+};
+
 export type TokenCounter = (messages: Message[], model?: string) => number | Promise<number>;
 
 export type Callable = {
@@ -49,6 +65,26 @@ export type SkillCallArgs = {
 	history?: EasyInputMessage[];
 };
 
+export type ToolApprovalRequest = {
+	name: string;
+	args: unknown;
+	callId?: string;
+	isSkill: boolean;
+	depth: number;
+};
+
+export type ToolApprovalDecision =
+	| { kind: "approve" }
+	| { kind: "deny"; reason?: string }
+	| { kind: "edit"; args: unknown };
+
+export type ToolApprovalHandler = (
+	request: ToolApprovalRequest,
+	signal?: AbortSignal
+) => Promise<ToolApprovalDecision> | ToolApprovalDecision;
+
+export type ToolErrorPolicy = "abort" | "report";
+
 export type RunAgentOptions = {
 	skillDepth?: number;
 	callableListMessage?: Message | null;
@@ -57,10 +93,27 @@ export type RunAgentOptions = {
 	contextWindowTokens?: number;
 	compactThreshold?: number;
 	model?: string;
+	parallelToolCalls?: boolean;
+	approveToolCall?: ToolApprovalHandler;
+	toolErrorPolicy?: ToolErrorPolicy;
+	maxConsecutiveToolErrors?: number;
+	validateToolArgs?: boolean;
+	compaction?: CompactionOption;
+	usageLedger?: UsageLedger;
+	budget?: UsageBudget;
+	session?: AgentSession;
+	onCheckpoint?: CheckpointHandler;
+	resume?: ResumeState;
+	domHistory?: DomHistory;
+	toolTimeoutMs?: number;
+	runTimeoutMs?: number;
+	maxToolResultTokens?: number;
 };
 
 export enum AgentStatusKind {
 	Thinking = "thinking",
+	AwaitingApproval = "awaiting_approval",
+	Retrying = "retrying",
 	CallingTool = "calling_tool",
 	ToolResult = "tool_result",
 	Done = "done",
@@ -93,6 +146,7 @@ export type ToolEndBase = {
 	type: "tool.end";
 	name: string;
 	result: unknown;
+	isError?: boolean;
 };
 
 export type SkillToolEnd = ToolEndBase & {
@@ -102,6 +156,95 @@ export type SkillToolEnd = ToolEndBase & {
 
 export type ToolEnd = ToolEndBase | (ToolEndBase & { isSkill?: false }) | SkillToolEnd;
 
+export type ToolValidation = {
+	type: "tool.validation";
+	name: string;
+	callId?: string;
+	phase: "args" | "result";
+	issues: SchemaIssue[];
+};
+
+export type CompactionEvent = {
+	type: "compaction";
+	strategy: string;
+	applied: string[];
+	before: number;
+	after: number;
+	error?: string;
+};
+
+export type TokenUsage = {
+	inputTokens: number;
+	outputTokens: number;
+	reasoningTokens: number;
+	cachedInputTokens: number;
+};
+
+export type UsageEvent = {
+	type: "usage";
+	usage: TokenUsage;
+	model?: string;
+	depth?: number;
+	cost?: number;
+	totals?: UsageTotals;
+};
+
+export type ModelSkip = {
+	model: string;
+	reason: string;
+};
+
+export type ModelSelectedEvent = {
+	type: "model.selected";
+	model: string;
+	index: number;
+	skipped: ModelSkip[];
+};
+
+export type RetryEvent = {
+	type: "retry";
+	attempt: number;
+	maxRetries: number;
+	delayMs: number;
+	reason: string;
+	status?: number;
+};
+
+export type AgentWarning = {
+	type: "warning";
+	code: string;
+	message: string;
+};
+
+export type ResumeEvent = {
+	type: "resume";
+	step: number;
+	calls: ResolvedPendingCall[];
+};
+
+export type DomChangeEvent = DomChangeSummary & {
+	type: "dom.change";
+	transactionId: string;
+	callId?: string;
+	name?: string;
+	depth: number;
+};
+
+export type HandlerErrorEvent = {
+	type: "handler.error";
+	event: string;
+	xpath: string;
+	error: CapturedError;
+};
+
+export type ToolApprovalStatus = "pending" | "approved" | "denied" | "edited";
+
+export type ToolApproval = ToolApprovalRequest & {
+	type: "tool.approval";
+	status: ToolApprovalStatus;
+	reason?: string;
+};
+
 export type AgentEvent =
 	| { type: "message"; content: string }
 	| { type: "message.delta"; delta: string }
@@ -109,6 +252,16 @@ export type AgentEvent =
 	| { type: "thinking.delta"; delta: string }
 	| ToolStart
 	| ToolEnd
+	| ToolApproval
+	| ToolValidation
+	| CompactionEvent
+	| AgentWarning
+	| UsageEvent
+	| RetryEvent
+	| ModelSelectedEvent
+	| ResumeEvent
+	| DomChangeEvent
+	| HandlerErrorEvent
 	| { type: "artifact"; name: string; data: unknown }
 	| { type: "done" };
 
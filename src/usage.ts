@@ -0,0 +1,76 @@
+import type { ModelPricing } from "./models";
+import type { TokenUsage } from "./types";
+
+export type UsageTotals = TokenUsage & {
+	totalTokens: number;
+	cost: number;
+	calls: number;
+};
+
+export type UsageLedger = {
+	total: UsageTotals;
+	byDepth: Record<number, UsageTotals>;
+};
+
+export type UsageBudget = {
+	maxTokens?: number;
+	maxCost?: number;
+};
+
+const emptyTotals = (): UsageTotals => ({
+	inputTokens: 0,
+	outputTokens: 0,
+	reasoningTokens: 0,
+	cachedInputTokens: 0,
+	totalTokens: 0,
+	cost: 0,
+	calls: 0,
+});
+
+export function createUsageLedger(): UsageLedger {
+	return { total: emptyTotals(), byDepth: {} };
+}
+
+export function costForUsage(usage: TokenUsage, pricing?: ModelPricing): number | undefined {
+	if (!pricing) {
+		return undefined;
+	}
+	const cachedRate = pricing.cachedInputPer1M ?? pricing.inputPer1M;
+	const uncachedInput = Math.max(0, usage.inputTokens - usage.cachedInputTokens);
+	return (
+		(uncachedInput * pricing.inputPer1M +
+			usage.cachedInputTokens * cachedRate +
+			usage.outputTokens * pricing.outputPer1M) /
+		1_000_000
+	);
+}
+
+function addUsage(totals: UsageTotals, usage: TokenUsage, cost: number): void {
+	totals.inputTokens += usage.inputTokens;
+	totals.outputTokens += usage.outputTokens;
+	totals.reasoningTokens += usage.reasoningTokens;
+	totals.cachedInputTokens += usage.cachedInputTokens;
+	totals.totalTokens += usage.inputTokens + usage.outputTokens;
+	totals.cost += cost;
+	totals.calls += 1;
+}
+
+export function recordUsage(ledger: UsageLedger, usage: TokenUsage, depth: number, cost: number = 0): void {
+	addUsage(ledger.total, usage, cost);
+	const depthTotals = ledger.byDepth[depth] ?? emptyTotals();
+	addUsage(depthTotals, usage, cost);
+	ledger.byDepth[depth] = depthTotals;
+}
+
+export function budgetExceeded(ledger: UsageLedger, budget?: UsageBudget): string | null {
+	if (!budget) {
+		return null;
+	}
+	if (budget.maxTokens !== undefined && ledger.total.totalTokens >= budget.maxTokens) {
+		return `Token budget of ${budget.maxTokens} reached (${ledger.total.totalTokens} used).`;
+	}
+	if (budget.maxCost !== undefined && ledger.total.cost >= budget.maxCost) {
+		return `Cost budget of $${budget.maxCost} reached ($${ledger.total.cost.toFixed(4)} used).`;
+	}
+	return null;
+}
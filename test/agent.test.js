@@ -1,8 +1,21 @@
 import test from "node:test";
+import { getEventListeners } from "node:events";
 import assert from "node:assert/strict";
 import { JSDOM } from "jsdom";
 import * as E from "fp-ts/lib/Either.js";
-import { createAgentMessages, runAgent, Skill, Tool, withStatus } from "../dist/index.js";
+import {
+	createAgentMessages,
+	createOpenAIResponsesAdapter,
+	createUsageLedger,
+	pinMessage,
+	runAgent,
+	Skill,
+	slidingWindowStrategy,
+	Tool,
+	trimMiddleStrategy,
+	truncateToolOutputsStrategy,
+	withStatus,
+} from "../dist/index.js";
 
 async function collectEvents(generator) {
 	const events = [];
@@ -316,6 +329,39 @@ test("new run aborts previous run", async () => {
 	assert.ok(secondRights.some((ev) => ev.type === "message" && ev.content === "ok"));
 });
 
+test("aborted tool calls get a cancelled output and the abort listener is removed", async () => {
+	const controller = new AbortController();
+	const tool = new Tool(
+		"wait",
+		"Waits until the run is cancelled.",
+		(_args, ctx) => {
+			controller.abort(new Error("Stopped by the user."));
+			return new Promise((resolve) => ctx.signal.addEventListener("abort", resolve, { once: true }));
+		},
+		{ type: "object" },
+		{ type: "string" }
+	);
+	const generate = () =>
+		streamFrom([
+			{ type: "tool.start", name: "wait", args: "{}", callId: "call-wait" },
+			{ type: "tool.start", name: "wait", args: "{}", callId: "call-late" },
+		]);
+
+	const messages = createAgentMessages();
+	const events = await collectEvents(runAgent(messages, generate, "go", [tool], 5, undefined, controller.signal));
+
+	const outputs = messages.filter((item) => item.type === "function_call_output");
+	assert.deepEqual(outputs.map((item) => item.call_id), ["call-wait"]);
+	assert.equal(JSON.parse(outputs[0].output).cancelled, true);
+	assert.ok(!messages.some((item) => item.call_id === "call-late"));
+	assert.ok(rightEvents(events).some((ev) => ev.type === "tool.end" && ev.isError));
+	assert.equal(getEventListeners(controller.signal, "abort").length, 0);
+
+	const idle = new AbortController();
+	await collectEvents(runAgent(createAgentMessages(), () => streamFrom([{ type: "message", content: "ok" }]), "hi", [], 5, undefined, idle.signal));
+	assert.equal(getEventListeners(idle.signal, "abort").length, 0);
+});
+
 test("root cycle inserts callable list message", async () => {
 	let seenMessages = null;
 	const generate = (messages) => {
@@ -755,3 +801,777 @@ test("status events cover main states", async () => {
 	assert.ok(statusKinds.has("tool_result"));
 	assert.ok(statusKinds.has("done"));
 });
+
+test("runs parallel-safe tools concurrently and keeps call order", async () => {
+	let calls = 0;
+	let seenMessages = null;
+	const generate = (messages) => {
+		calls += 1;
+		if (calls === 1) {
+			return streamFrom([
+				{ type: "tool.start", name: "slow", args: "{}", callId: "call-1" },
+				{ type: "tool.start", name: "fast", args: "{}", callId: "call-2" },
+			]);
+		}
+		seenMessages = messages;
+		return streamFrom([{ type: "message", content: "done" }]);
+	};
+
+	const running = [];
+	let maxRunning = 0;
+	const makeTool = (name, delay) =>
+		new Tool(
+			name,
+			"Waits.",
+			async () => {
+				running.push(name);
+				maxRunning = Math.max(maxRunning, running.length);
+				await new Promise((resolve) => setTimeout(resolve, delay));
+				running.splice(running.indexOf(name), 1);
+				return name;
+			},
+			{ type: "object", additionalProperties: false },
+			{ type: "string", description: "Tool name." },
+			{ parallel: true }
+		);
+
+	const messages = createAgentMessages();
+	const events = await runAgentEvents(
+		messages,
+		generate,
+		"test",
+		[makeTool("slow", 30), makeTool("fast", 5)],
+		undefined,
+		undefined,
+		undefined,
+		{ parallelToolCalls: true }
+	);
+	const toolEvents = rightEvents(events)
+		.filter((ev) => ev.type === "tool.start" || ev.type === "tool.end")
+		.map((ev) => `${ev.type}:${ev.name}`);
+
+	assert.equal(maxRunning, 2);
+	assert.deepEqual(toolEvents, ["tool.start:slow", "tool.end:slow", "tool.start:fast", "tool.end:fast"]);
+	const outputs = seenMessages.filter((msg) => msg.type === "function_call_output").map((msg) => msg.call_id);
+	assert.deepEqual(outputs, ["call-1", "call-2"]);
+});
+
+test("a failing parallel call still leaves outputs for its siblings", async () => {
+	const generate = () =>
+		streamFrom([
+			{ type: "tool.start", name: "boom", args: "{}", callId: "call-1" },
+			{ type: "tool.start", name: "ok", args: "{}", callId: "call-2" },
+			{ type: "tool.start", name: "boom", args: "{}", callId: "call-3" },
+		]);
+	const makeTool = (name, run) =>
+		new Tool(name, "Runs.", run, { type: "object" }, { type: "string" }, { parallel: true });
+
+	const messages = createAgentMessages();
+	const events = await runAgentEvents(
+		messages,
+		generate,
+		"test",
+		[
+			makeTool("boom", async () => {
+				throw new Error("boom");
+			}),
+			makeTool("ok", async () => "fine"),
+		],
+		undefined,
+		undefined,
+		undefined,
+		{ parallelToolCalls: true }
+	);
+
+	assert.equal(leftErrors(events)[0].message, "boom");
+	const outputs = Object.fromEntries(
+		messages.filter((msg) => msg.type === "function_call_output").map((msg) => [msg.call_id, msg.output])
+	);
+	assert.equal(outputs["call-2"], "fine");
+	assert.equal(JSON.parse(outputs["call-3"]).cancelled, true);
+	assert.ok(!("call-1" in outputs));
+});
+
+test("runs tools sequentially unless parallel mode is enabled", async () => {
+	let calls = 0;
+	const generate = () => {
+		calls += 1;
+		if (calls === 1) {
+			return streamFrom([
+				{ type: "tool.start", name: "wait", args: "{}", callId: "call-1" },
+				{ type: "tool.start", name: "wait", args: "{}", callId: "call-2" },
+			]);
+		}
+		return streamFrom([{ type: "message", content: "done" }]);
+	};
+
+	let running = 0;
+	let maxRunning = 0;
+	const tool = new Tool(
+		"wait",
+		"Waits.",
+		async () => {
+			running += 1;
+			maxRunning = Math.max(maxRunning, running);
+			await new Promise((resolve) => setTimeout(resolve, 5));
+			running -= 1;
+			return "ok";
+		},
+		{ type: "object", additionalProperties: false },
+		{ type: "string", description: "OK result." },
+		{ parallel: true }
+	);
+
+	const messages = createAgentMessages();
+	await runAgentEvents(messages, generate, "test", [tool]);
+
+	assert.equal(maxRunning, 1);
+});
+
+test("denied tool calls are reported back to the model", async () => {
+	let calls = 0;
+	let seenMessages = null;
+	const generate = (messages) => {
+		calls += 1;
+		if (calls === 1) {
+			return streamFrom([{ type: "tool.start", name: "remove", args: "{}", callId: "call-1" }]);
+		}
+		seenMessages = messages;
+		return streamFrom([{ type: "message", content: "ok, skipped" }]);
+	};
+
+	let ran = false;
+	const tool = new Tool(
+		"remove",
+		"Removes things.",
+		() => {
+			ran = true;
+			return { ok: true };
+		},
+		{ type: "object", additionalProperties: false },
+		{ type: "object", description: "OK result." }
+	);
+
+	const requests = [];
+	const messages = createAgentMessages();
+	const events = await runAgentEvents(messages, generate, "test", [tool], undefined, undefined, undefined, {
+		approveToolCall: (request) => {
+			requests.push(request);
+			return { kind: "deny", reason: "Not now." };
+		},
+	});
+	const rights = rightEvents(events);
+
+	assert.equal(ran, false);
+	assert.equal(requests.length, 1);
+	assert.equal(requests[0].name, "remove");
+	assert.equal(requests[0].isSkill, false);
+	assert.deepEqual(
+		rights.filter((ev) => ev.type === "tool.approval").map((ev) => ev.status),
+		["pending", "denied"]
+	);
+	assert.ok(!rights.some((ev) => ev.type === "tool.start"));
+	const output = seenMessages.find((msg) => msg.type === "function_call_output");
+	assert.deepEqual(JSON.parse(output.output), { denied: true, reason: "Not now." });
+	assert.ok(rights.some((ev) => ev.type === "message" && ev.content === "ok, skipped"));
+});
+
+test("approval can edit tool arguments", async () => {
+	let calls = 0;
+	const generate = () => {
+		calls += 1;
+		if (calls === 1) {
+			return streamFrom([
+				{ type: "tool.start", name: "echo", args: "{\"value\":\"model\"}", callId: "call-1" },
+			]);
+		}
+		return streamFrom([{ type: "message", content: "done" }]);
+	};
+
+	const tool = new Tool(
+		"echo",
+		"Echoes args.",
+		(args) => args,
+		{ type: "object", additionalProperties: true },
+		{ type: "object", description: "Echoed args." }
+	);
+
+	const messages = createAgentMessages();
+	const events = await runAgentEvents(messages, generate, "test", [tool], undefined, undefined, undefined, {
+		approveToolCall: async () => ({ kind: "edit", args: { value: "user" } }),
+	});
+	const rights = rightEvents(events);
+
+	const endEvent = rights.find((ev) => ev.type === "tool.end");
+	assert.deepEqual(endEvent.result, { value: "user" });
+	assert.ok(rights.some((ev) => ev.type === "tool.approval" && ev.status === "edited"));
+	const call = messages.find((msg) => msg.type === "function_call");
+	assert.equal(call.arguments, "{\"value\":\"user\"}");
+});
+
+test("approval events from skills are forwarded and bad edited args are reported", async () => {
+	let calls = 0;
+	let seenMessages = null;
+	const generate = (messages) => {
+		calls += 1;
+		if (calls === 1) {
+			return streamFrom([{ type: "tool.start", name: "writer", args: "{\"task\":\"draft\"}", callId: "call-1" }]);
+		}
+		if (calls === 2) {
+			return streamFrom([{ type: "tool.start", name: "echo", args: "{}", callId: "call-2" }]);
+		}
+		if (calls === 3) {
+			return streamFrom([{ type: "message", content: "drafted" }]);
+		}
+		if (calls === 4) {
+			return streamFrom([{ type: "tool.start", name: "writer", args: "{\"task\":\"again\"}", callId: "call-3" }]);
+		}
+		seenMessages = messages;
+		return streamFrom([{ type: "message", content: "done" }]);
+	};
+	const echo = new Tool("echo", "Echoes args.", (args) => args, { type: "object" }, { type: "object" });
+	const skill = new Skill("writer", "Writes things.", "Write.", [echo]);
+
+	const messages = createAgentMessages();
+	const events = await runAgentEvents(messages, generate, "test", [skill], undefined, undefined, undefined, {
+		approveToolCall: (request) =>
+			request.callId === "call-3" ? { kind: "edit", args: { task: 42 } } : { kind: "approve" },
+	});
+	const rights = rightEvents(events);
+
+	assert.ok(rights.some((ev) => ev.type === "tool.approval" && ev.callId === "call-2" && ev.depth === 1));
+	assert.equal(leftErrors(events).length, 0);
+	const output = seenMessages.find((msg) => msg.type === "function_call_output" && msg.call_id === "call-3");
+	assert.ok(JSON.parse(output.output).error);
+	assert.equal(rights.at(-1).type, "done");
+});
+
+test("reports tool errors to the model when policy is report", async () => {
+	let calls = 0;
+	let seenMessages = null;
+	const generate = (messages) => {
+		calls += 1;
+		if (calls === 1) {
+			return streamFrom([{ type: "tool.start", name: "explode", args: "{}", callId: "call-1" }]);
+		}
+		seenMessages = messages;
+		return streamFrom([{ type: "message", content: "recovered" }]);
+	};
+
+	const tool = new Tool(
+		"explode",
+		"Throws.",
+		() => {
+			throw new TypeError("bad xpath");
+		},
+		{ type: "object", additionalProperties: false },
+		{ type: "object", description: "Never returns." }
+	);
+
+	const messages = createAgentMessages();
+	const events = await runAgentEvents(messages, generate, "test", [tool], undefined, undefined, undefined, {
+		toolErrorPolicy: "report",
+	});
+	const rights = rightEvents(events);
+
+	assert.equal(leftErrors(events).length, 0);
+	const endEvent = rights.find((ev) => ev.type === "tool.end");
+	assert.equal(endEvent.isError, true);
+	const output = JSON.parse(seenMessages.find((msg) => msg.type === "function_call_output").output);
+	assert.equal(output.error.name, "TypeError");
+	assert.equal(output.error.message, "bad xpath");
+	assert.ok(rights.some((ev) => ev.type === "message" && ev.content === "recovered"));
+	assert.ok(rights.some((ev) => ev.type === "done"));
+});
+
+test("stops after too many consecutive tool errors", async () => {
+	let calls = 0;
+	const generate = () => {
+		calls += 1;
+		return streamFrom([{ type: "tool.start", name: "missing", args: "{}", callId: `call-${calls}` }]);
+	};
+
+	const messages = createAgentMessages();
+	const events = await runAgentEvents(messages, generate, "test", [], 10, undefined, undefined, {
+		toolErrorPolicy: "report",
+		maxConsecutiveToolErrors: 2,
+	});
+	const errors = leftErrors(events);
+
+	assert.equal(calls, 2);
+	assert.equal(errors.length, 1);
+	assert.match(errors[0].message, /2 times in a row/);
+	assert.equal(rightEvents(events).filter((ev) => ev.type === "tool.end" && ev.isError).length, 2);
+});
+
+test("each failed call in a parallel batch counts toward maxConsecutiveToolErrors", async () => {
+	let calls = 0;
+	const generate = () => {
+		calls += 1;
+		return streamFrom([
+			{ type: "tool.start", name: "boom", args: "{}", callId: `call-${calls}-a` },
+			{ type: "tool.start", name: "boom", args: "{}", callId: `call-${calls}-b` },
+		]);
+	};
+	const boom = new Tool("boom", "Fails.", async () => {
+		throw new Error("boom");
+	}, { type: "object" }, { type: "string" }, { parallel: true });
+
+	const events = await runAgentEvents(createAgentMessages(), generate, "test", [boom], 10, undefined, undefined, {
+		toolErrorPolicy: "report",
+		maxConsecutiveToolErrors: 2,
+		parallelToolCalls: true,
+	});
+	const errors = leftErrors(events);
+
+	assert.equal(calls, 1);
+	assert.equal(errors.length, 1);
+	assert.match(errors[0].message, /2 times in a row/);
+});
+
+test("invalid tool args are returned to the model without running the tool", async () => {
+	let calls = 0;
+	let seenMessages = null;
+	const generate = (messages) => {
+		calls += 1;
+		if (calls === 1) {
+			return streamFrom([{ type: "tool.start", name: "echo", args: "{\"value\":1}", callId: "call-1" }]);
+		}
+		seenMessages = messages;
+		return streamFrom([{ type: "message", content: "done" }]);
+	};
+
+	let ran = false;
+	const tool = new Tool(
+		"echo",
+		"Echoes args.",
+		(args) => {
+			ran = true;
+			return args;
+		},
+		{
+			type: "object",
+			properties: { value: { type: "string" } },
+			required: ["value"],
+			additionalProperties: false,
+		},
+		{ type: "object", description: "Echoed args." }
+	);
+
+	const messages = createAgentMessages();
+	const events = await runAgentEvents(messages, generate, "test", [tool]);
+	const rights = rightEvents(events);
+
+	assert.equal(ran, false);
+	const validation = rights.find((ev) => ev.type === "tool.validation");
+	assert.equal(validation.phase, "args");
+	assert.equal(validation.issues[0].path, "$.value");
+	const output = JSON.parse(seenMessages.find((msg) => msg.type === "function_call_output").output);
+	assert.equal(output.error.name, "SchemaValidationError");
+	assert.equal(output.error.issues[0].path, "$.value");
+
+	calls = 0;
+	await runAgentEvents(createAgentMessages(), generate, "test", [tool], undefined, undefined, undefined, {
+		validateToolArgs: false,
+	});
+	assert.equal(ran, true);
+});
+
+test("reports tool results that violate the output schema", async () => {
+	let calls = 0;
+	const generate = () => {
+		calls += 1;
+		if (calls === 1) {
+			return streamFrom([{ type: "tool.start", name: "count", args: "{}", callId: "call-1" }]);
+		}
+		return streamFrom([{ type: "message", content: "done" }]);
+	};
+
+	const tool = new Tool(
+		"count",
+		"Counts.",
+		() => "three",
+		{ type: "object", additionalProperties: false },
+		{ type: "number", description: "Count." }
+	);
+
+	const messages = createAgentMessages();
+	const events = await runAgentEvents(messages, generate, "test", [tool]);
+	const rights = rightEvents(events);
+
+	const validation = rights.find((ev) => ev.type === "tool.validation");
+	assert.equal(validation.phase, "result");
+	assert.ok(rights.some((ev) => ev.type === "tool.end" && ev.result === "three" && !ev.isError));
+
+	calls = 0;
+	const silent = new Tool("count", "Counts.", () => undefined, { type: "object" }, { type: "object" });
+	const silentEvents = rightEvents(await runAgentEvents(createAgentMessages(), generate, "test", [silent]));
+	assert.ok(!silentEvents.some((ev) => ev.type === "tool.validation"));
+});
+
+test("summarizing compaction condenses dropped segments", async () => {
+	const requests = [];
+	const generate = (messages, tools) => {
+		requests.push({ messages, tools });
+		if (requests.length === 1) {
+			return streamFrom([
+				{ type: "message", content: "User asked for a hero section." },
+				{
+					type: "usage",
+					usage: { inputTokens: 40, outputTokens: 10, reasoningTokens: 0, cachedInputTokens: 0 },
+				},
+			]);
+		}
+		return streamFrom([{ type: "message", content: "ok" }]);
+	};
+	const messages = createAgentMessages();
+	messages.push({ role: "user", content: "u1" });
+	messages.push({ type: "function_call", call_id: "c1", name: "domSummary", arguments: "{}" });
+	messages.push({ type: "function_call_output", call_id: "c1", output: "- div#root" });
+	messages.push({ role: "assistant", content: "a1" });
+	for (const index of [2, 3, 4]) {
+		messages.push({ role: "user", content: `u${index}` });
+		messages.push({ role: "assistant", content: `a${index}` });
+	}
+
+	const events = await runAgentEvents(messages, generate, "u5", [], 1, undefined, undefined, {
+		tokenCounter: () => 1_000_000,
+		contextWindowTokens: 100,
+		compaction: "summarize",
+	});
+	const rights = rightEvents(events);
+
+	const transcript = requests[0].messages[1].content;
+	assert.ok(transcript.includes("user: u1"));
+	assert.ok(transcript.includes("tool call domSummary"));
+	assert.ok(transcript.includes("tool result: - div#root"));
+	assert.equal(requests[0].tools, undefined);
+
+	const compaction = rights.find((ev) => ev.type === "compaction");
+	assert.equal(compaction.strategy, "summarize");
+	assert.equal(compaction.before, 11);
+	assert.equal(compaction.after, 8);
+	assert.equal(messages[1].role, "system");
+	assert.ok(messages[1].content.includes("User asked for a hero section."));
+	assert.ok(!messages.some((msg) => msg.type === "function_call" || msg.type === "function_call_output"));
+	assert.equal(messages[2].content, "u2");
+	const usage = rights.find((ev) => ev.type === "usage");
+	assert.equal(usage.totals.totalTokens, 50);
+});
+
+test("compaction counts the pending input and tool definitions when checking the target", async () => {
+	const contentLength = (messages) =>
+		messages.reduce((sum, msg) => sum + (msg.role === "system" ? 0 : String(msg.content ?? "").length), 0);
+	const keep = (name, keepSegments) => ({ ...slidingWindowStrategy({ keepSegments }), name });
+	const messages = createAgentMessages();
+	for (const index of [1, 2, 3, 4]) {
+		messages.push({ role: "user", content: `user-${index}-x` });
+		messages.push({ role: "assistant", content: `answer-${index}` });
+	}
+	const counted = [];
+	const generate = () => streamFrom([{ type: "message", content: "ok" }]);
+
+	const echo = new Tool("echo", "Echoes args.", (args) => args, { type: "object" }, { type: "object" });
+
+	const events = await runAgentEvents(messages, generate, "y".repeat(110), [echo], 1, undefined, undefined, {
+		tokenCounter: (request) => {
+			counted.push(request);
+			return contentLength(request);
+		},
+		contextWindowTokens: 200,
+		compaction: [keep("keepThree", 3), keep("keepOne", 1)],
+	});
+	const compaction = rightEvents(events).find((ev) => ev.type === "compaction");
+
+	assert.deepEqual(compaction.applied, ["keepThree", "keepOne"]);
+	assert.ok(counted[0].some((msg) => msg.role === "system" && msg.content.includes("\"echo\"")));
+});
+
+test("summarizing compaction falls back to truncation on errors", async () => {
+	let calls = 0;
+	const generate = async function* () {
+		calls += 1;
+		if (calls === 1) {
+			yield E.left(new Error("summary failed"));
+			return;
+		}
+		yield E.right({ type: "message", content: "ok" });
+	};
+	const messages = createAgentMessages();
+	for (const index of [1, 2, 3, 4]) {
+		messages.push({ role: "user", content: `u${index}` });
+		messages.push({ role: "assistant", content: `a${index}` });
+	}
+
+	const events = await runAgentEvents(messages, generate, "u5", [], 1, undefined, undefined, {
+		tokenCounter: () => 1_000_000,
+		contextWindowTokens: 100,
+		compaction: "summarize",
+	});
+	const compaction = rightEvents(events).find((ev) => ev.type === "compaction");
+
+	assert.equal(compaction.strategy, "truncate");
+	assert.equal(compaction.error, "summary failed");
+	assert.ok(!messages.some((msg) => msg.content === "u1"));
+	assert.ok(rightEvents(events).some((ev) => ev.type === "message" && ev.content === "ok"));
+});
+
+test("compaction strategies run in order until history fits", async () => {
+	const generate = () => streamFrom([{ type: "message", content: "ok" }]);
+	const messages = createAgentMessages();
+	for (const index of [1, 2, 3, 4]) {
+		messages.push({ role: "user", content: `u${index}` });
+		messages.push({ type: "function_call", call_id: `c${index}`, name: "domSubtreeHtml", arguments: "{}" });
+		messages.push({ type: "function_call_output", call_id: `c${index}`, output: "x".repeat(1_000) });
+	}
+	const sizeCounter = (items) => JSON.stringify(items).length;
+
+	const events = await runAgentEvents(messages, generate, "u5", [], 1, undefined, undefined, {
+		tokenCounter: sizeCounter,
+		contextWindowTokens: 2_000,
+		compactThreshold: 1,
+		compaction: [truncateToolOutputsStrategy({ maxChars: 50 }), slidingWindowStrategy({ keepSegments: 1 })],
+	});
+	const compaction = rightEvents(events).find((ev) => ev.type === "compaction");
+
+	assert.deepEqual(compaction.applied, ["truncateToolOutputs"]);
+	const outputs = messages.filter((msg) => msg.type === "function_call_output");
+	assert.equal(outputs.length, 4);
+	assert.ok(outputs.every((msg) => msg.output.includes("[truncated 950 chars during compaction]")));
+});
+
+test("pinned messages survive compaction with their tool call pair", async () => {
+	const generate = () => streamFrom([{ type: "message", content: "ok" }]);
+	const messages = createAgentMessages();
+	messages.push(pinMessage({ role: "user", content: "brief" }));
+	messages.push({ role: "assistant", content: "a1" });
+	messages.push({ role: "user", content: "u2" });
+	messages.push({ type: "function_call", call_id: "c2", name: "design_skill", arguments: "{}" });
+	messages.push(pinMessage({ type: "function_call_output", call_id: "c2", output: "Use the blue palette." }));
+	messages.push({ role: "assistant", content: "a2" });
+	for (const index of [3, 4, 5]) {
+		messages.push({ role: "user", content: `u${index}` });
+		messages.push({ role: "assistant", content: `a${index}` });
+	}
+
+	await runAgentEvents(messages, generate, "u6", [], 1, undefined, undefined, {
+		tokenCounter: () => 1_000_000,
+		contextWindowTokens: 100,
+		compaction: trimMiddleStrategy({ keepHead: 0, keepTail: 2 }),
+	});
+
+	const kept = messages.map((msg) => msg.content ?? msg.type);
+	assert.deepEqual(kept, [
+		messages[0].content,
+		"brief",
+		"function_call",
+		"function_call_output",
+		"u4",
+		"a4",
+		"u5",
+		"a5",
+		"u6",
+		"ok",
+	]);
+});
+
+test("warns about models missing from the registry", async () => {
+	const generate = () => streamFrom([{ type: "message", content: "ok" }]);
+	const known = await runAgentEvents(undefined, generate, "hi", [], 1, undefined, undefined, {
+		model: "gpt-4o-mini",
+	});
+	const unknown = await runAgentEvents(undefined, generate, "hi", [], 1, undefined, undefined, {
+		model: "mystery-model",
+	});
+
+	assert.ok(!rightEvents(known).some((ev) => ev.type === "warning"));
+	const warning = rightEvents(unknown).find((ev) => ev.type === "warning");
+	assert.equal(warning.code, "unknown_model");
+	assert.ok(warning.message.includes("mystery-model"));
+});
+
+test("compaction reads the context window from the model registry", async () => {
+	const generate = () => streamFrom([{ type: "message", content: "ok" }]);
+	const messages = createAgentMessages();
+	for (const index of [1, 2, 3, 4]) {
+		messages.push({ role: "user", content: `u${index}` });
+		messages.push({ role: "assistant", content: `a${index}` });
+	}
+
+	const projected = [...messages];
+	await runAgentEvents(messages, generate, "u5", [], 1, undefined, undefined, {
+		tokenCounter: () => 200_000,
+		model: "gpt-4.1",
+	});
+	assert.ok(messages.some((msg) => msg.content === "u1"));
+
+	await runAgentEvents(projected, generate, "u5", [], 1, undefined, undefined, {
+		tokenCounter: () => 200_000,
+		model: "gpt-4o",
+	});
+	assert.ok(!projected.some((msg) => msg.content === "u1"));
+});
+
+test("openai adapter reports usage from the completed response", async () => {
+	const client = {
+		responses: {
+			create: async () =>
+				(async function* () {
+					yield { type: "response.output_text.delta", delta: "hi" };
+					yield {
+						type: "response.completed",
+						response: {
+							model: "gpt-4o-2024-08-06",
+							usage: {
+								input_tokens: 120,
+								output_tokens: 30,
+								input_tokens_details: { cached_tokens: 100 },
+								output_tokens_details: { reasoning_tokens: 10 },
+							},
+						},
+					};
+				})(),
+		},
+	};
+	const adapter = createOpenAIResponsesAdapter({ client, model: "gpt-4o" });
+	const events = await collectEvents(adapter.generate([]));
+	const usage = rightEvents(events).find((ev) => ev.type === "usage");
+	assert.deepEqual(usage, {
+		type: "usage",
+		usage: { inputTokens: 120, outputTokens: 30, reasoningTokens: 10, cachedInputTokens: 100 },
+		model: "gpt-4o-2024-08-06",
+	});
+});
+
+test("usage is priced and aggregated per depth across skill runs", async () => {
+	const usage = (inputTokens, outputTokens) => ({
+		type: "usage",
+		usage: { inputTokens, outputTokens, reasoningTokens: 0, cachedInputTokens: 0 },
+	});
+	let callCount = 0;
+	const generate = () => {
+		callCount += 1;
+		if (callCount === 1) {
+			return streamFrom([
+				{ type: "tool.start", name: "demo_skill", args: JSON.stringify({ task: "go" }), callId: "call-1" },
+				usage(1_000, 100),
+			]);
+		}
+		if (callCount === 2) {
+			return streamFrom([{ type: "message", content: "child" }, usage(500, 50)]);
+		}
+		return streamFrom([{ type: "message", content: "done" }, usage(2_000, 200)]);
+	};
+	const usageLedger = createUsageLedger();
+	const skills = [new Skill("demo.skill", "Demo skill.", "# Demo")];
+
+	const events = await runAgentEvents(createAgentMessages(), generate, "hi", skills, undefined, undefined, undefined, {
+		model: "gpt-4o",
+		usageLedger,
+	});
+	const usageEvents = rightEvents(events).filter((ev) => ev.type === "usage");
+
+	assert.deepEqual(
+		usageEvents.map((ev) => ev.depth),
+		[0, 1, 0]
+	);
+	assert.equal(usageEvents[0].model, "gpt-4o");
+	assert.equal(usageEvents[0].cost, (1_000 * 2.5 + 100 * 10) / 1_000_000);
+	assert.equal(usageEvents[2].totals.totalTokens, 3_850);
+	assert.equal(usageLedger.total.calls, 3);
+	assert.equal(usageLedger.byDepth[0].inputTokens, 3_000);
+	assert.equal(usageLedger.byDepth[1].outputTokens, 50);
+});
+
+test("stops gracefully once the token budget is spent", async () => {
+	let callCount = 0;
+	const tools = [new Tool("noop", "No-op.", async () => "ok", { type: "object" }, { type: "string" })];
+	const generate = () => {
+		callCount += 1;
+		return streamFrom([
+			{ type: "tool.start", name: "noop", args: "{}", callId: `call-${callCount}` },
+			{ type: "usage", usage: { inputTokens: 80, outputTokens: 40, reasoningTokens: 0, cachedInputTokens: 0 } },
+		]);
+	};
+
+	const events = await runAgentEvents(createAgentMessages(), generate, "hi", tools, 10, undefined, undefined, {
+		budget: { maxTokens: 200 },
+	});
+	const rights = rightEvents(events);
+
+	assert.equal(callCount, 2);
+	assert.equal(leftErrors(events).length, 0);
+	const warning = rights.find((ev) => ev.type === "warning");
+	assert.equal(warning.code, "budget_exceeded");
+	assert.equal(rights.at(-1).type, "done");
+});
+
+test("tool calls that exceed their timeout are reported to the model", async () => {
+	let calls = 0;
+	let seenMessages = null;
+	let toolSignal = null;
+	const generate = (messages) => {
+		calls += 1;
+		if (calls === 1) {
+			return streamFrom([
+				{ type: "tool.start", name: "hang", args: "{}", callId: "call-1" },
+				{ type: "tool.start", name: "quick", args: "{}", callId: "call-2" },
+			]);
+		}
+		seenMessages = messages;
+		return streamFrom([{ type: "message", content: "moved on" }]);
+	};
+	const tools = [
+		new Tool("hang", "Never resolves.", (_args, ctx) => {
+			toolSignal = ctx.signal;
+			return new Promise(() => {});
+		}, { type: "object" }, { type: "string" }),
+		new Tool("quick", "Resolves after a short wait.", () => new Promise((resolve) => setTimeout(() => resolve("ok"), 40)), { type: "object" }, { type: "string" }, { timeoutMs: 1000 }),
+	];
+
+	const events = await runAgentEvents(createAgentMessages(), generate, "test", tools, undefined, undefined, undefined, {
+		toolTimeoutMs: 20,
+	});
+	const outputs = seenMessages.filter((msg) => msg.type === "function_call_output");
+
+	assert.equal(leftErrors(events).length, 0);
+	assert.ok(toolSignal.aborted);
+	assert.equal(toolSignal.reason.name, "ToolTimeoutError");
+	assert.equal(JSON.parse(outputs[0].output).error.name, "ToolTimeoutError");
+	assert.match(JSON.parse(outputs[0].output).error.message, /within 20ms/);
+	assert.equal(outputs[1].output, "ok");
+	assert.ok(rightEvents(events).some((ev) => ev.type === "message" && ev.content === "moved on"));
+});
+
+test("runs stop with a warning once runTimeoutMs elapses", async () => {
+	const tools = [new Tool("wait", "Waits forever.", () => new Promise(() => {}), { type: "object" }, { type: "string" })];
+	const generate = () => streamFrom([{ type: "tool.start", name: "wait", args: "{}", callId: "call-1" }]);
+
+	const events = await runAgentEvents(createAgentMessages(), generate, "test", tools, 5, undefined, undefined, {
+		runTimeoutMs: 30,
+	});
+	const rights = rightEvents(events);
+
+	assert.equal(leftErrors(events).length, 0);
+	assert.ok(rights.some((ev) => ev.type === "tool.end" && ev.isError));
+	assert.match(rights.find((ev) => ev.type === "warning" && ev.code === "run_timeout").message, /within 30ms/);
+	assert.equal(rights.at(-1).type, "done");
+});
+
+test("runs that time out while the model is streaming end with a warning", async () => {
+	const generate = async (_messages, _tools, signal) =>
+		(async function* () {
+			yield E.right({ type: "message.delta", delta: "Thinking" });
+			await new Promise((resolve) => signal.addEventListener("abort", resolve, { once: true }));
+			throw signal.reason;
+		})();
+
+	const events = await runAgentEvents(createAgentMessages(), generate, "test", [], 5, undefined, undefined, {
+		runTimeoutMs: 30,
+	});
+	const rights = rightEvents(events);
+
+	assert.equal(leftErrors(events).length, 0);
+	assert.match(rights.find((ev) => ev.type === "warning" && ev.code === "run_timeout").message, /within 30ms/);
+	assert.equal(rights.at(-1).type, "done");
+});
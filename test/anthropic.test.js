@@ -0,0 +1,167 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { readFile } from "node:fs/promises";
+import * as E from "fp-ts/lib/Either.js";
+import { createAnthropicMessagesAdapter, readSseMessages, toAnthropicRequest, Tool } from "../dist/index.js";
+
+const fixture = await readFile(new URL("./fixtures/anthropic-tool-use.sse", import.meta.url), "utf8");
+
+async function collectEvents(generator) {
+	const events = [];
+	for await (const ev of generator) {
+		events.push(ev);
+	}
+	return events;
+}
+
+function rightEvents(events) {
+	return events.filter(E.isRight).map((event) => event.right);
+}
+
+function chunked(text, size) {
+	const bytes = new TextEncoder().encode(text);
+	return (async function* () {
+		for (let offset = 0; offset < bytes.length; offset += size) {
+			yield bytes.slice(offset, offset + size);
+		}
+	})();
+}
+
+function fixtureFetch(bodies) {
+	const requests = [];
+	const fetch = async (url, init) => {
+		requests.push({ url, init, body: JSON.parse(init.body) });
+		return new Response(bodies[requests.length - 1] ?? "", {
+			status: 200,
+			headers: { "content-type": "text/event-stream" },
+		});
+	};
+	return { fetch, requests };
+}
+
+test("parses SSE messages split across arbitrary chunks", async () => {
+	const messages = await collectEvents(readSseMessages(chunked(fixture.replaceAll("\n", "\r\n"), 7)));
+
+	assert.equal(messages.length, 18);
+	assert.equal(messages[0].event, "message_start");
+	assert.equal(JSON.parse(messages.at(-1).data).type, "message_stop");
+});
+
+test("maps a recorded Messages stream onto agent events", async () => {
+	const { fetch, requests } = fixtureFetch([fixture]);
+	const adapter = createAnthropicMessagesAdapter({ model: "claude-sonnet-4-5", apiKey: "test-key", fetch });
+	const tools = [
+		new Tool("dom_summary", "Summarizes the DOM.", async () => "", { type: "object" }, { type: "string" }).toToolDefinition(),
+	];
+
+	const events = rightEvents(
+		await collectEvents(
+			adapter.generate([{ role: "system", content: "be brief" }, { role: "user", content: "draw" }], tools)
+		)
+	);
+
+	const text = events.filter((ev) => ev.type === "message.delta").map((ev) => ev.delta).join("");
+	const thinking = events.filter((ev) => ev.type === "thinking.delta").map((ev) => ev.delta).join("");
+	assert.equal(text, "Rendering the hero now.");
+	assert.equal(thinking, "The canvas is empty, so I should render the hero.");
+	assert.deepEqual(events.find((ev) => ev.type === "tool.start"), {
+		type: "tool.start",
+		name: "dom_summary",
+		args: "{\"xpath\": \"/\", \"maxDepth\": 2}",
+		callId: "toolu_01A",
+	});
+	assert.deepEqual(events.find((ev) => ev.type === "usage"), {
+		type: "usage",
+		usage: { inputTokens: 1436, outputTokens: 87, reasoningTokens: 0, cachedInputTokens: 1024 },
+		model: "claude-sonnet-4-5-20250929",
+	});
+
+	const request = requests[0];
+	assert.equal(request.url, "https://api.anthropic.com/v1/messages");
+	assert.equal(request.init.headers["x-api-key"], "test-key");
+	assert.equal(request.body.system, "be brief");
+	assert.equal(request.body.max_tokens, 64_000);
+	assert.deepEqual(request.body.messages, [{ role: "user", content: [{ type: "text", text: "draw" }] }]);
+	assert.equal(request.body.tools[0].name, "dom_summary");
+	assert.deepEqual(request.body.tool_choice, { type: "auto" });
+});
+
+test("sends tool results and replays thinking before tool_use blocks", async () => {
+	const { fetch, requests } = fixtureFetch([fixture, "", ""]);
+	const adapter = createAnthropicMessagesAdapter({ model: "claude-sonnet-4-5", fetch });
+	await collectEvents(adapter.generate([{ role: "user", content: "draw" }]));
+	const history = [
+		{ role: "user", content: "draw" },
+		{ type: "function_call", call_id: "toolu_01A", name: "dom_summary", arguments: "{\"xpath\":\"/\"}" },
+		{ type: "function_call_output", call_id: "toolu_01A", output: "- div" },
+	];
+
+	await collectEvents(adapter.generate(history));
+	await collectEvents(adapter.generate(history));
+
+	assert.equal(requests[2].body.messages[1].content[0].type, "tool_use");
+
+	assert.deepEqual(requests[1].body.messages.slice(1), [
+		{
+			role: "assistant",
+			content: [
+				{
+					type: "thinking",
+					thinking: "The canvas is empty, so I should render the hero.",
+					signature: "EqQBCgIYAhIM",
+				},
+				{ type: "tool_use", id: "toolu_01A", name: "dom_summary", input: { xpath: "/" } },
+			],
+		},
+		{ role: "user", content: [{ type: "tool_result", tool_use_id: "toolu_01A", content: "- div" }] },
+	]);
+});
+
+test("keeps thinking only for a bounded number of calls that never reach the history", async () => {
+	const bodies = Array.from({ length: 65 }, (_, index) => fixture.replaceAll("toolu_01A", `toolu_${index}`));
+	const { fetch, requests } = fixtureFetch(bodies);
+	const adapter = createAnthropicMessagesAdapter({ model: "claude-sonnet-4-5", fetch });
+	for (let index = 0; index < bodies.length; index += 1) {
+		await collectEvents(adapter.generate([{ role: "user", content: "draw" }]));
+	}
+	const call = (id) => ({ type: "function_call", call_id: id, name: "dom_summary", arguments: "{}" });
+
+	const blockTypes = async (id) => {
+		await collectEvents(adapter.generate([{ role: "user", content: "draw" }, call(id)]));
+		return requests.at(-1).body.messages[1].content.map((block) => block.type);
+	};
+
+	assert.deepEqual(await blockTypes("toolu_0"), ["tool_use"]);
+	assert.deepEqual(await blockTypes("toolu_64"), ["thinking", "tool_use"]);
+});
+
+test("merges consecutive turns into alternating Messages roles", () => {
+	const request = toAnthropicRequest([
+		{ role: "system", content: "a" },
+		{ role: "system", content: "b" },
+		{ role: "user", content: "hi" },
+		{ role: "user", content: [{ type: "input_image", image_url: "data:image/png;base64,AAAA", detail: "auto" }] },
+	]);
+
+	assert.equal(request.system, "a\n\nb");
+	assert.deepEqual(request.messages, [
+		{
+			role: "user",
+			content: [
+				{ type: "text", text: "hi" },
+				{ type: "image", source: { type: "base64", media_type: "image/png", data: "AAAA" } },
+			],
+		},
+	]);
+});
+
+test("reports HTTP errors as stream errors", async () => {
+	const fetch = async () => new Response("{\"error\":{\"message\":\"bad key\"}}", { status: 401 });
+	const adapter = createAnthropicMessagesAdapter({ model: "claude-sonnet-4-5", fetch });
+
+	const events = await collectEvents(adapter.generate([{ role: "user", content: "hi" }]));
+
+	assert.equal(events.length, 1);
+	assert.ok(E.isLeft(events[0]));
+	assert.match(events[0].left.message, /status 401.*bad key/);
+});
@@ -0,0 +1,127 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { JSDOM } from "jsdom";
+import * as E from "fp-ts/lib/Either.js";
+import { createAgentMessages, domBindEventTool, jsInterpreterTool, runAgent } from "../dist/index.js";
+
+async function collectEvents(generator) {
+	const events = [];
+	for await (const ev of generator) {
+		events.push(ev);
+	}
+	return events;
+}
+
+function rightEvents(events) {
+	return events.filter(E.isRight).map((event) => event.right);
+}
+
+function withDom(html, fn) {
+	const dom = new JSDOM(html, { url: "https://example.com" });
+	const keys = ["window", "document", "Node", "XPathResult"];
+	const prev = Object.fromEntries(keys.map((key) => [key, globalThis[key]]));
+	for (const key of keys) {
+		globalThis[key] = key === "window" ? dom.window : dom.window[key];
+	}
+	const restore = () => {
+		for (const key of keys) {
+			if (prev[key] === undefined) {
+				delete globalThis[key];
+			} else {
+				globalThis[key] = prev[key];
+			}
+		}
+	};
+	return Promise.resolve(fn(dom)).finally(restore);
+}
+
+test("captured interpreter runs return console output and uncaught errors", async () => {
+	await withDom("<div id=\"root\"><p>Hi</p></div>", async (dom) => {
+		const root = dom.window.document.querySelector("#root");
+		const tool = jsInterpreterTool({ capture: { forward: false } });
+		const result = await tool.run(
+			{
+				code: [
+					"console.log('found', x('//p').length, { ok: true });",
+					"console.warn(x('//p')[0]);",
+					"window.dispatchEvent(new window.ErrorEvent('error', { error: new TypeError('late'), message: 'late' }));",
+					"await Promise.resolve();",
+					"return 42;",
+				].join("\n"),
+				async: true,
+			},
+			{ viewRoot: root, document: dom.window.document, window: dom.window }
+		);
+
+		assert.equal(result.result, 42);
+		assert.deepEqual(result.logs, [
+			{ level: "log", message: "found 1 {\"ok\":true}" },
+			{ level: "warn", message: "<p>Hi</p>" },
+		]);
+		assert.equal(result.errors[0].name, "TypeError");
+		assert.equal(result.errors[0].message, "late");
+		assert.equal(result.truncated, undefined);
+		assert.match(tool.description, /\{ result, logs, errors \}/);
+	});
+});
+
+test("captured output is capped and attached to thrown errors", async () => {
+	await withDom("<div id=\"root\"></div>", async (dom) => {
+		const root = dom.window.document.querySelector("#root");
+		const tool = jsInterpreterTool({ capture: { maxChars: 30, forward: false } });
+		const ctx = { viewRoot: root, document: dom.window.document, window: dom.window };
+
+		const capped = await tool.run({ code: "for (let i = 0; i < 100; i++) console.log('line ' + i); return 'done';", async: false }, ctx);
+		assert.equal(capped.result, "done");
+		assert.equal(capped.truncated, true);
+		assert.ok(capped.logs.length < 10);
+		assert.ok(capped.logs.map((entry) => entry.message).join("").length <= 31);
+
+		await assert.rejects(
+			tool.run({ code: "console.error('about to fail'); null.boom;", async: false }, ctx),
+			(error) =>
+				error.name === "ScriptError" &&
+				error.message.startsWith("TypeError:") &&
+				error.logs[0].level === "error" &&
+				error.logs[0].message === "about to fail"
+		);
+	});
+});
+
+test("domBindEvent handler errors surface as events and reach the model on the next step", async () => {
+	await withDom("<div id=\"root\"><button>Go</button></div>", async (dom) => {
+		const root = dom.window.document.querySelector("#root");
+		const messages = createAgentMessages();
+		let calls = 0;
+		const generate = async function* () {
+			calls += 1;
+			if (calls === 1) {
+				yield E.right({
+					type: "tool.start",
+					name: "domBindEvent",
+					args: JSON.stringify({ xpath: "//button", event: "click", code: "throw new RangeError('bad handler');" }),
+					callId: "bind-1",
+				});
+				return;
+			}
+			yield E.right({ type: "message", content: "bound" });
+		};
+		await collectEvents(runAgent(messages, generate, "bind it", [domBindEventTool()], 5, { viewRoot: root }));
+
+		root.querySelector("button").click();
+
+		let seen = null;
+		const followUp = async function* (prompt) {
+			seen = [...prompt];
+			yield E.right({ type: "message", content: "fixing" });
+		};
+		const events = rightEvents(await collectEvents(runAgent(messages, followUp, "why?", [], 5, { viewRoot: root })));
+		const reported = events.find((ev) => ev.type === "handler.error");
+
+		assert.equal(reported.event, "click");
+		assert.equal(reported.xpath, "/button[1]");
+		assert.deepEqual([reported.error.name, reported.error.message], ["RangeError", "bad handler"]);
+		const note = seen.find((item) => item.role === "system" && item.content.includes("bad handler"));
+		assert.match(note.content, /click on \/button\[1\]: RangeError: bad handler/);
+	});
+});
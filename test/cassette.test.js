@@ -0,0 +1,126 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import * as E from "fp-ts/lib/Either.js";
+import {
+	composeGenerate,
+	createAgentMessages,
+	createCassette,
+	createReplayAdapter,
+	hashRequest,
+	parseCassette,
+	recordCassette,
+	runAgent,
+	Tool,
+} from "../dist/index.js";
+
+async function collectEvents(generator) {
+	const events = [];
+	for await (const ev of generator) {
+		events.push(ev);
+	}
+	return events;
+}
+
+function rightEvents(events) {
+	return events.filter(E.isRight).map((event) => event.right);
+}
+
+const echo = new Tool(
+	"echo",
+	"Echoes text.",
+	async ({ text }) => text,
+	{ type: "object", properties: { text: { type: "string" } }, required: ["text"] },
+	{ type: "string" }
+);
+const shout = new Tool("shout", "Shouts text.", async ({ text }) => text.toUpperCase(), { type: "object" }, { type: "string" });
+
+function liveGenerate() {
+	let calls = 0;
+	return async function* () {
+		calls += 1;
+		if (calls === 1) {
+			yield E.right({ type: "tool.start", name: "echo", args: "{\"text\":\"hey\"}", callId: "call-1" });
+			return;
+		}
+		yield E.right({ type: "message.delta", delta: "echoed hey" });
+	};
+}
+
+async function recordSession() {
+	const cassette = createCassette();
+	const generate = composeGenerate(liveGenerate(), recordCassette(cassette));
+	const events = await collectEvents(runAgent(createAgentMessages(), generate, "echo hey", [echo]));
+	return { cassette: parseCassette(JSON.stringify(cassette)), events };
+}
+
+const eventTypes = (events) => rightEvents(events).map((ev) => ev.type);
+
+test("replays a recorded session offline", async () => {
+	const { cassette, events } = await recordSession();
+	assert.equal(cassette.entries.length, 2);
+	assert.equal(cassette.entries[0].key, hashRequest(cassette.entries[0].request));
+
+	const adapter = createReplayAdapter(cassette);
+	const replayed = await collectEvents(runAgent(createAgentMessages(), adapter.generate, "echo hey", [echo]));
+
+	assert.deepEqual(eventTypes(replayed), eventTypes(events));
+	assert.ok(rightEvents(replayed).some((ev) => ev.type === "message" && ev.content === "echoed hey"));
+});
+
+test("strict replay fails clearly when the request changed", async () => {
+	const { cassette } = await recordSession();
+	const adapter = createReplayAdapter(cassette);
+
+	const events = await collectEvents(runAgent(createAgentMessages(), adapter.generate, "echo bye", [echo]));
+	const error = events.find(E.isLeft).left;
+
+	assert.equal(error.name, "CassetteMissError");
+	assert.equal(error.mode, "strict");
+	assert.match(error.message, /last user message "echo bye"/);
+	assert.match(error.message, /2 recorded, 0 used/);
+});
+
+test("lenient replay ignores system prompts and tool lists", async () => {
+	const { cassette } = await recordSession();
+
+	const strict = await collectEvents(
+		runAgent(createAgentMessages(), createReplayAdapter(cassette).generate, "echo hey", [echo, shout])
+	);
+	assert.ok(strict.some(E.isLeft));
+
+	const adapter = createReplayAdapter(cassette, { mode: "lenient" });
+	const events = await collectEvents(runAgent(createAgentMessages(), adapter.generate, "echo  hey ", [echo, shout]));
+	assert.ok(!events.some(E.isLeft));
+	assert.ok(rightEvents(events).some((ev) => ev.type === "message" && ev.content === "echoed hey"));
+});
+
+test("lenient fallback warns about the mismatch and requires the same tools", async () => {
+	const { cassette } = await recordSession();
+
+	const events = await collectEvents(
+		runAgent(createAgentMessages(), createReplayAdapter(cassette, { mode: "lenient" }).generate, "shout hey", [echo])
+	);
+	assert.ok(!events.some(E.isLeft));
+	const warnings = rightEvents(events).filter((ev) => ev.type === "warning");
+	assert.deepEqual(warnings.map((ev) => ev.code), ["cassette_mismatch", "cassette_mismatch"]);
+	assert.match(warnings[0].message, /1 of 2/);
+
+	const otherTools = await collectEvents(
+		runAgent(createAgentMessages(), createReplayAdapter(cassette, { mode: "lenient" }).generate, "shout hey", [shout])
+	);
+	assert.equal(otherTools.find(E.isLeft).left.name, "CassetteMissError");
+});
+
+test("records stream errors and replays them", async () => {
+	const cassette = createCassette();
+	const failing = async function* () {
+		yield E.left(new Error("upstream down"));
+	};
+	await collectEvents(composeGenerate(failing, recordCassette(cassette))([{ role: "user", content: "hi" }]));
+
+	const events = await collectEvents(createReplayAdapter(cassette).generate([{ role: "user", content: "hi" }]));
+
+	assert.equal(events.length, 1);
+	assert.equal(events[0].left.message, "upstream down");
+	assert.throws(() => parseCassette("{\"version\":2,\"entries\":[]}"), /Unsupported cassette format/);
+});
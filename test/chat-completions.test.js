@@ -0,0 +1,144 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import * as E from "fp-ts/lib/Either.js";
+import { createAgentMessages, createOpenAIChatCompletionsAdapter, runAgent, Tool, toChatMessages } from "../dist/index.js";
+
+async function collectEvents(generator) {
+	const events = [];
+	for await (const ev of generator) {
+		events.push(ev);
+	}
+	return events;
+}
+
+function rightEvents(events) {
+	return events.filter(E.isRight).map((event) => event.right);
+}
+
+function mockClient(responses) {
+	const requests = [];
+	const client = {
+		chat: {
+			completions: {
+				create: async (params) => {
+					requests.push(params);
+					const chunks = responses[requests.length - 1] ?? [];
+					return (async function* () {
+						for (const chunk of chunks) {
+							yield chunk;
+						}
+					})();
+				},
+			},
+		},
+	};
+	return { client, requests };
+}
+
+test("translates responses history into chat messages", () => {
+	const chat = toChatMessages([
+		{ role: "system", content: "be brief" },
+		{ role: "user", content: [{ type: "input_text", text: "hi" }] },
+		{ role: "assistant", content: "checking" },
+		{ type: "function_call", call_id: "call-1", name: "lookup", arguments: "{\"q\":1}" },
+		{ type: "function_call", call_id: "call-2", name: "lookup", arguments: "{\"q\":2}" },
+		{ type: "function_call_output", call_id: "call-1", output: "one" },
+		{ type: "function_call_output", call_id: "call-2", output: "two" },
+		{ type: "reasoning", id: "rs_1", summary: [] },
+	]);
+
+	assert.deepEqual(chat, [
+		{ role: "system", content: "be brief" },
+		{ role: "user", content: "hi" },
+		{
+			role: "assistant",
+			content: "checking",
+			tool_calls: [
+				{ id: "call-1", type: "function", function: { name: "lookup", arguments: "{\"q\":1}" } },
+				{ id: "call-2", type: "function", function: { name: "lookup", arguments: "{\"q\":2}" } },
+			],
+		},
+		{ role: "tool", tool_call_id: "call-1", content: "one" },
+		{ role: "tool", tool_call_id: "call-2", content: "two" },
+	]);
+});
+
+test("maps streamed tool call fragments to tool.start events", async () => {
+	const { client, requests } = mockClient([
+		[
+			{ choices: [{ delta: { reasoning_content: "thinking" } }] },
+			{
+				choices: [
+					{
+						delta: {
+							tool_calls: [{ index: 0, id: "call-a", type: "function", function: { name: "add", arguments: "{\"a\":" } }],
+						},
+					},
+				],
+			},
+			{
+				choices: [
+					{
+						delta: {
+							tool_calls: [
+								{ index: 0, function: { arguments: "1,\"b\":2}" } },
+								{ index: 1, id: "call-b", function: { name: "add", arguments: "{\"a\":3,\"b\":4}" } },
+							],
+						},
+					},
+				],
+			},
+			{ choices: [{ delta: {}, finish_reason: "tool_calls" }] },
+			{ choices: [], usage: { prompt_tokens: 40, completion_tokens: 12 } },
+		],
+	]);
+	const adapter = createOpenAIChatCompletionsAdapter({ client, model: "local-model" });
+	const tools = [new Tool("add", "Adds.", async () => 0, { type: "object" }, { type: "number" }).toToolDefinition()];
+
+	const events = rightEvents(await collectEvents(adapter.generate([{ role: "user", content: "add" }], tools)));
+
+	assert.deepEqual(
+		events.filter((ev) => ev.type === "tool.start"),
+		[
+			{ type: "tool.start", name: "add", args: "{\"a\":1,\"b\":2}", callId: "call-a" },
+			{ type: "tool.start", name: "add", args: "{\"a\":3,\"b\":4}", callId: "call-b" },
+		]
+	);
+	assert.ok(events.some((ev) => ev.type === "thinking.delta" && ev.delta === "thinking"));
+	assert.equal(events.find((ev) => ev.type === "usage").usage.inputTokens, 40);
+	assert.equal(requests[0].tools[0].function.name, "add");
+	assert.equal(requests[0].tool_choice, "auto");
+	assert.deepEqual(requests[0].stream_options, { include_usage: true });
+});
+
+test("runs a tool loop end to end against a mock server", async () => {
+	const { client, requests } = mockClient([
+		[
+			{
+				choices: [
+					{
+						delta: { tool_calls: [{ index: 0, id: "call-1", function: { name: "echo", arguments: "{\"text\":\"hey\"}" } }] },
+						finish_reason: "tool_calls",
+					},
+				],
+			},
+		],
+		[{ choices: [{ delta: { content: "done: " } }] }, { choices: [{ delta: { content: "hey" }, finish_reason: "stop" }] }],
+	]);
+	const adapter = createOpenAIChatCompletionsAdapter({ client, model: "local-model", includeUsage: false });
+	const echo = new Tool(
+		"echo",
+		"Echoes text.",
+		async ({ text }) => text,
+		{ type: "object", properties: { text: { type: "string" } }, required: ["text"] },
+		{ type: "string" }
+	);
+
+	const events = rightEvents(await collectEvents(runAgent(createAgentMessages(), adapter.generate, "echo hey", [echo])));
+
+	assert.ok(events.some((ev) => ev.type === "message" && ev.content === "done: hey"));
+	const followUp = requests[1].messages;
+	assert.deepEqual(followUp.at(-1), { role: "tool", tool_call_id: "call-1", content: "hey" });
+	assert.equal(followUp.at(-2).tool_calls[0].function.name, "echo");
+	assert.equal(requests[1].stream_options, undefined);
+});
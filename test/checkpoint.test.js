@@ -0,0 +1,211 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import * as E from "fp-ts/lib/Either.js";
+import {
+	createAgentMessages,
+	createMemorySessionStore,
+	parseCheckpoint,
+	resumeAgent,
+	runAgent,
+	Skill,
+	Tool,
+} from "../dist/index.js";
+
+async function collectEvents(generator) {
+	const events = [];
+	for await (const ev of generator) {
+		events.push(ev);
+	}
+	return events;
+}
+
+function rightEvents(events) {
+	return events.filter(E.isRight).map((event) => event.right);
+}
+
+const reload = (value) => JSON.parse(JSON.stringify(value));
+
+async function interruptedRun() {
+	const controller = new AbortController();
+	const ran = [];
+	const save = new Tool(
+		"save",
+		"Saves a file.",
+		async ({ name }) => {
+			ran.push(name);
+			controller.abort(new Error("page reload"));
+			return `saved ${name}`;
+		},
+		{ type: "object", properties: { name: { type: "string" } } },
+		{ type: "string" }
+	);
+	const generate = async function* () {
+		yield E.right({ type: "tool.start", name: "save", args: "{\"name\":\"a\"}", callId: "call-a" });
+		yield E.right({ type: "tool.start", name: "save", args: "{\"name\":\"b\"}", callId: "call-b" });
+	};
+	const checkpoints = [];
+	const messages = createAgentMessages();
+	await collectEvents(
+		runAgent(messages, generate, "save both", [save], 5, undefined, controller.signal, {
+			onCheckpoint: (checkpoint) => checkpoints.push(reload(checkpoint)),
+		})
+	);
+	return { save, ran, checkpoints, messages: reload(messages) };
+}
+
+const finish = async function* () {
+	yield E.right({ type: "message", content: "all saved" });
+};
+
+test("interrupted runs checkpoint their pending tool calls", async () => {
+	const { ran, checkpoints, messages } = await interruptedRun();
+	const last = checkpoints.at(-1);
+
+	assert.deepEqual(ran, ["a"]);
+	assert.deepEqual(checkpoints[0].pendingCalls.map((call) => call.callId), ["call-a", "call-b"]);
+	assert.equal(last.status, "interrupted");
+	assert.equal(last.step, 1);
+	assert.equal(last.input, "save both");
+	assert.deepEqual(last.pendingCalls, [{ callId: "call-b", name: "save", args: "{\"name\":\"b\"}" }]);
+	assert.ok(messages.some((item) => item.type === "function_call_output" && item.call_id === "call-a"));
+});
+
+test("resumeAgent re-runs pending calls the host approves", async () => {
+	const { save, ran, checkpoints, messages } = await interruptedRun();
+	const checkpoint = parseCheckpoint(JSON.stringify(checkpoints.at(-1)));
+	const asked = [];
+	const finals = [];
+
+	const events = await collectEvents(
+		resumeAgent(checkpoint, messages, finish, [save], undefined, undefined, {
+			resolvePendingCall: (call) => {
+				asked.push(call.callId);
+				return "rerun";
+			},
+			onCheckpoint: (next) => finals.push(next),
+		})
+	);
+	const rights = rightEvents(events);
+
+	assert.deepEqual(asked, ["call-b"]);
+	assert.deepEqual(ran, ["a", "b"]);
+	assert.deepEqual(rights[0], { type: "resume", step: 1, calls: [{ ...checkpoint.pendingCalls[0], decision: "rerun" }] });
+	assert.ok(rights.some((ev) => ev.type === "tool.start" && ev.callId === "call-b"));
+	assert.equal(rights.at(-1).type, "done");
+	assert.equal(messages.filter((item) => item.role === "user").length, 1);
+	assert.equal(messages.at(-1).content, "all saved");
+	assert.equal(finals.at(-1).status, "completed");
+	assert.deepEqual(finals.at(-1).pendingCalls, []);
+});
+
+test("skipped pending calls are reported to the model", async () => {
+	const { save, ran, checkpoints, messages } = await interruptedRun();
+	let seen = null;
+	const generate = async function* (prompt) {
+		seen = [...prompt];
+		yield* finish();
+	};
+
+	await collectEvents(resumeAgent(checkpoints.at(-1), messages, generate, [save]));
+
+	assert.deepEqual(ran, ["a"]);
+	const skipped = seen.find((item) => item.type === "function_call_output" && item.call_id === "call-b");
+	assert.equal(JSON.parse(skipped.output).skipped, true);
+	assert.ok(seen.some((item) => item.type === "function_call" && item.call_id === "call-b"));
+});
+
+test("checkpoints keep partial text and restart interrupted skills as pending calls", async () => {
+	const controller = new AbortController();
+	const slow = new Tool(
+		"slow",
+		"Interrupts the run mid-skill.",
+		async () => {
+			controller.abort(new Error("Superseded by a new request."));
+			return "late";
+		},
+		{ type: "object" },
+		{ type: "string" }
+	);
+	const skill = new Skill("writer", "Writes things.", "Write.", [slow]);
+	let calls = 0;
+	const generate = async function* () {
+		calls += 1;
+		if (calls === 1) {
+			yield E.right({ type: "tool.start", name: "writer", args: "{\"task\":\"draft\"}", callId: "call-skill" });
+			return;
+		}
+		yield E.right({ type: "tool.start", name: "slow", args: "{}", callId: "call-slow" });
+	};
+	const checkpoints = [];
+	await collectEvents(
+		runAgent(createAgentMessages(), generate, "write", [skill], 5, undefined, controller.signal, {
+			onCheckpoint: (checkpoint) => checkpoints.push(reload(checkpoint)),
+		})
+	);
+
+	const last = checkpoints.at(-1);
+	assert.equal(last.status, "interrupted");
+	assert.ok(checkpoints.every((checkpoint) => !("skillStack" in checkpoint)));
+	assert.deepEqual(checkpoints[0].pendingCalls, [{ callId: "call-skill", name: "writer", args: "{\"task\":\"draft\"}" }]);
+
+	const textController = new AbortController();
+	const partial = [];
+	const streaming = async function* () {
+		yield E.right({ type: "message.delta", delta: "Half an ans" });
+		textController.abort(new Error("page reload"));
+		throw new Error("page reload");
+	};
+	const messages = createAgentMessages();
+	await collectEvents(
+		runAgent(messages, streaming, "explain", [], 5, undefined, textController.signal, {
+			onCheckpoint: (checkpoint) => partial.push(checkpoint),
+		})
+	).catch(() => {});
+	assert.equal(partial.at(-1).partialText, "Half an ans");
+
+	let seen = null;
+	const generateAfter = async function* (prompt) {
+		seen = [...prompt];
+		yield* finish();
+	};
+	await collectEvents(resumeAgent(partial.at(-1), messages, generateAfter));
+	assert.deepEqual(seen.at(-1), { role: "assistant", content: "Half an ans" });
+});
+
+test("the session is saved together with each checkpoint", async () => {
+	const store = createMemorySessionStore();
+	const save = new Tool("save", "Saves a file.", async ({ name }) => `saved ${name}`, { type: "object" }, { type: "string" });
+	let calls = 0;
+	const generate = async function* () {
+		calls += 1;
+		if (calls === 1) {
+			yield E.right({ type: "tool.start", name: "save", args: "{\"name\":\"a\"}", callId: "call-a" });
+			yield E.right({ type: "tool.start", name: "save", args: "{\"name\":\"b\"}", callId: "call-b" });
+			return;
+		}
+		yield* finish();
+	};
+	const snapshots = [];
+
+	await collectEvents(
+		runAgent(createAgentMessages(), generate, "save both", [save], 5, undefined, undefined, {
+			session: { id: "s1", store },
+			onCheckpoint: async (checkpoint) => {
+				const saved = (await store.load("s1")) ?? [];
+				snapshots.push({
+					pending: checkpoint.pendingCalls.map((call) => call.callId),
+					outputs: saved.filter((item) => item.type === "function_call_output").map((item) => item.call_id),
+				});
+			},
+		})
+	);
+
+	const midBatch = snapshots.find((snapshot) => snapshot.pending.join() === "call-b");
+	assert.deepEqual(midBatch.outputs, ["call-a"]);
+});
+
+test("parseCheckpoint rejects unknown formats", () => {
+	assert.throws(() => parseCheckpoint({ version: 99, pendingCalls: [] }), /Unsupported checkpoint format version 99/);
+	assert.throws(() => parseCheckpoint({ version: 1 }), /pendingCalls array/);
+	assert.equal(parseCheckpoint({ version: 1, pendingCalls: [] }).status, "interrupted");
+});
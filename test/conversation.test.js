@@ -0,0 +1,85 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { JSDOM } from "jsdom";
+import * as E from "fp-ts/lib/Either.js";
+import { createConversationTree, runAgent } from "../dist/index.js";
+
+async function collectEvents(generator) {
+	const events = [];
+	for await (const ev of generator) {
+		events.push(ev);
+	}
+	return events;
+}
+
+const reply = (content) =>
+	async function* () {
+		yield E.right({ type: "message", content });
+	};
+
+const contents = (messages) => messages.slice(1).map((message) => message.content);
+
+test("fork keeps the original branch and runs against the new one", async () => {
+	const tree = createConversationTree();
+	await collectEvents(runAgent(tree.messages, reply("red header"), "make the header red"));
+	await collectEvents(runAgent(tree.messages, reply("bigger"), "make it bigger"));
+	const messages = tree.messages;
+
+	const branch = tree.fork(3, { name: "blue" });
+	assert.equal(tree.messages, messages);
+	assert.deepEqual(contents(tree.messages), ["make the header red", "red header"]);
+
+	await collectEvents(runAgent(tree.messages, reply("blue header"), "make the header blue"));
+	tree.sync();
+
+	const [main, blue] = tree.branches();
+	assert.equal(blue.id, branch.id);
+	assert.equal(blue.forkedFrom, main.id);
+	assert.equal(blue.messageCount, 5);
+	assert.ok(blue.active);
+
+	tree.switchTo(main.id);
+	assert.deepEqual(contents(tree.messages), ["make the header red", "red header", "make it bigger", "bigger"]);
+	tree.switchTo(blue.id);
+	assert.deepEqual(contents(tree.messages).slice(2), ["make the header blue", "blue header"]);
+});
+
+test("rewind drops later turns and can restore the view", async () => {
+	const dom = new JSDOM("<main id=\"root\"><h1>Title</h1></main>");
+	const viewRoot = dom.window.document.getElementById("root");
+	const tree = createConversationTree({ viewRoot });
+	const paint = (html) =>
+		async function* () {
+			viewRoot.innerHTML = html;
+			yield E.right({ type: "message", content: "ok" });
+		};
+
+	await collectEvents(runAgent(tree.messages, paint("<h1>Red</h1>"), "red"));
+	tree.sync();
+	await collectEvents(runAgent(tree.messages, paint("<h1>Blue</h1>"), "blue"));
+
+	tree.rewind(3, { restoreView: true });
+	assert.deepEqual(contents(tree.messages), ["red", "ok"]);
+	assert.equal(viewRoot.innerHTML, "<h1>Red</h1>");
+
+	tree.rewind(1, { restoreView: true });
+	assert.equal(tree.messages.length, 1);
+	assert.equal(viewRoot.innerHTML, "<h1>Title</h1>");
+	assert.equal(tree.activeBranch().messageCount, 1);
+});
+
+test("branch operations validate their targets", async () => {
+	const tree = createConversationTree();
+	await collectEvents(runAgent(tree.messages, reply("hi"), "hello"));
+
+	assert.throws(() => tree.fork(2), /Message 2 is not a user message/);
+	assert.throws(() => tree.switchTo("nope"), /Unknown branch: nope/);
+	assert.throws(() => tree.deleteBranch(tree.activeBranch().id), /Cannot delete the active branch/);
+	assert.throws(() => tree.rewind(1, { restoreView: true }), /no viewRoot/);
+
+	const side = tree.fork(1, { switchTo: false });
+	assert.equal(tree.branches().length, 2);
+	assert.equal(tree.messages.length, 3);
+	tree.deleteBranch(side.id);
+	assert.equal(tree.branches().length, 1);
+});
@@ -0,0 +1,124 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { JSDOM } from "jsdom";
+import * as E from "fp-ts/lib/Either.js";
+import { createAgentMessages, createDomHistory, runAgent, Skill, Tool } from "../dist/index.js";
+
+async function collectEvents(generator) {
+	const events = [];
+	for await (const ev of generator) {
+		events.push(ev);
+	}
+	return events;
+}
+
+function rightEvents(events) {
+	return events.filter(E.isRight).map((event) => event.right);
+}
+
+const ORIGINAL = "<h1 class=\"title\">Hi</h1>";
+
+function setup() {
+	const dom = new JSDOM(`<main id="root">${ORIGINAL}</main>`);
+	const viewRoot = dom.window.document.getElementById("root");
+	const tools = [
+		new Tool("append", "Appends HTML.", ({ html }, ctx) => {
+			ctx.viewRoot.insertAdjacentHTML("beforeend", html);
+			return "ok";
+		}, { type: "object" }, { type: "string" }),
+		new Tool("setClass", "Sets the heading class.", ({ name }, ctx) => {
+			ctx.viewRoot.querySelector("h1").className = name;
+			return "ok";
+		}, { type: "object" }, { type: "string" }),
+		new Tool("retitle", "Edits the heading text.", ({ text }, ctx) => {
+			ctx.viewRoot.querySelector("h1").firstChild.data = text;
+			return "ok";
+		}, { type: "object" }, { type: "string" }),
+	];
+	return { viewRoot, tools, domHistory: createDomHistory(viewRoot) };
+}
+
+const call = (name, args, callId) => E.right({ type: "tool.start", name, args: JSON.stringify(args), callId });
+
+function scripted(steps) {
+	let index = 0;
+	return async function* () {
+		const events = steps[index] ?? [E.right({ type: "message", content: "done" })];
+		index += 1;
+		yield* events;
+	};
+}
+
+test("runs record DOM changes per tool call and undo by call, step or run", async () => {
+	const { viewRoot, tools, domHistory } = setup();
+	const generate = scripted([
+		[call("append", { html: "<p>one</p>" }, "c1"), call("setClass", { name: "big" }, "c2")],
+		[call("retitle", { text: "Hello" }, "c3")],
+	]);
+
+	const events = await collectEvents(
+		runAgent(createAgentMessages(), generate, "edit", tools, 5, { viewRoot }, undefined, { domHistory })
+	);
+	const changes = rightEvents(events).filter((ev) => ev.type === "dom.change");
+	const final = viewRoot.innerHTML;
+
+	assert.deepEqual(
+		changes.map(({ callId, name, added, removed, changed }) => ({ callId, name, added, removed, changed })),
+		[
+			{ callId: "c1", name: "append", added: 1, removed: 0, changed: 0 },
+			{ callId: "c2", name: "setClass", added: 0, removed: 0, changed: 1 },
+			{ callId: "c3", name: "retitle", added: 0, removed: 0, changed: 1 },
+		]
+	);
+	assert.equal(final, "<h1 class=\"big\">Hello</h1><p>one</p>");
+
+	assert.deepEqual(domHistory.undo().map((tx) => tx.callId), ["c3"]);
+	assert.equal(viewRoot.innerHTML, "<h1 class=\"big\">Hi</h1><p>one</p>");
+	domHistory.redo();
+	assert.equal(viewRoot.innerHTML, final);
+
+	domHistory.undo("step");
+	assert.deepEqual(domHistory.undo("step").map((tx) => tx.callId), ["c2", "c1"]);
+	assert.equal(viewRoot.innerHTML, ORIGINAL);
+	assert.ok(!domHistory.canUndo());
+
+	domHistory.redo("run");
+	assert.equal(viewRoot.innerHTML, final);
+	domHistory.undo("run");
+	assert.equal(viewRoot.innerHTML, ORIGINAL);
+});
+
+test("changes outside tool calls are not recorded and undo waits for open transactions", async () => {
+	const { viewRoot, domHistory } = setup();
+	viewRoot.setAttribute("data-user", "1");
+
+	domHistory.begin({ name: "manual" });
+	viewRoot.querySelector("h1").remove();
+	assert.throws(() => domHistory.undo(), /Cannot undo while a tool call is recording/);
+	const transaction = domHistory.commit();
+
+	assert.deepEqual(transaction.summary, { added: 0, removed: 1, changed: 0 });
+	domHistory.undo();
+	assert.equal(viewRoot.innerHTML, ORIGINAL);
+	assert.equal(viewRoot.getAttribute("data-user"), "1");
+	assert.equal(domHistory.commit(), null);
+});
+
+test("DOM changes inside skills surface with their depth", async () => {
+	const { viewRoot, tools, domHistory } = setup();
+	const skill = new Skill("styler", "Styles the page.", "Style it.", tools);
+	const generate = scripted([
+		[call("styler", { task: "make it big" }, "s1")],
+		[call("setClass", { name: "big" }, "c1")],
+	]);
+
+	const events = await collectEvents(
+		runAgent(createAgentMessages(), generate, "style", [skill], 5, { viewRoot }, undefined, { domHistory })
+	);
+	const change = rightEvents(events).find((ev) => ev.type === "dom.change");
+
+	assert.equal(change.depth, 1);
+	assert.equal(change.callId, "c1");
+	domHistory.undo("run");
+	assert.equal(viewRoot.innerHTML, ORIGINAL);
+});
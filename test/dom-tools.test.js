@@ -2,11 +2,13 @@ import test from "node:test";
 import assert from "node:assert/strict";
 import { JSDOM } from "jsdom";
 import {
+	a11ySnapshotTool,
 	domAppendHtmlTool,
 	domBindEventTool,
 	domRemoveTool,
 	domSubtreeHtmlTool,
 	domSummaryTool,
+	jsInterpreterTool,
 	jsRunTool,
 } from "../dist/index.js";
 
@@ -188,3 +190,81 @@ test("jsRunTool loads jQuery and executes code", async () => {
 		assert.equal(result, true);
 	});
 });
+
+const A11Y_PAGE = `<div id="root">
+	<nav aria-label="Primary"><a href="/docs">Docs</a><a>No href</a></nav>
+	<main>
+		<h2>Sign <b>in</b></h2>
+		<p>Use your work account.</p>
+		<label>Email <input type="email" value="a@b.c" required></label>
+		<label for="pw">Password</label><input id="pw" type="password" value="secret">
+		<input type="checkbox" aria-label="Remember me" checked>
+		<button disabled>Submit</button>
+		<div role="button" tabindex="0" aria-expanded="false">More</div>
+		<div hidden><button>Hidden</button></div>
+		<span aria-hidden="true">decor</span>
+		<p style="display: none">Invisible</p>
+		<input type="hidden" value="token">
+	</main>
+</div>`;
+
+test("a11ySnapshotTool lists roles, names and states and skips hidden nodes", async () => {
+	await withDom(A11Y_PAGE, async (dom) => {
+		const root = dom.window.document.querySelector("#root");
+		const snapshot = await a11ySnapshotTool().run(
+			{ xpath: null, interactiveOnly: null, maxNodes: null },
+			{ viewRoot: root, document: dom.window.document, window: dom.window }
+		);
+		const lines = snapshot.split("\n").map((line) => line.replace(/ @e\d+$/, ""));
+
+		assert.deepEqual(lines, [
+			"- navigation \"Primary\"",
+			"  - link \"Docs\"",
+			"  - text \"No href\"",
+			"- main",
+			"  - heading \"Sign in\" [level=2]",
+			"  - text \"Use your work account. Email\"",
+			"  - textbox \"Email\" value=\"a@b.c\" [required]",
+			"  - text \"Password\"",
+			"  - textbox \"Password\" value=\"••••••\"",
+			"  - checkbox \"Remember me\" [checked]",
+			"  - button \"Submit\" [disabled]",
+			"  - button \"More\" [collapsed]",
+		]);
+
+		const interactive = await a11ySnapshotTool().run(
+			{ xpath: "//main", interactiveOnly: true, maxNodes: 2 },
+			{ viewRoot: root, document: dom.window.document, window: dom.window }
+		);
+		assert.match(interactive, /^- textbox "Email".*\n- textbox "Password".*\n- … \(stopped after 2 nodes\)$/);
+	});
+});
+
+test("a11y refs are stable and accepted in place of XPath", async () => {
+	await withDom(A11Y_PAGE, async (dom) => {
+		const root = dom.window.document.querySelector("#root");
+		const ctx = { viewRoot: root, document: dom.window.document, window: dom.window };
+		const args = { xpath: null, interactiveOnly: true, maxNodes: null };
+		const first = await a11ySnapshotTool().run(args, ctx);
+		const ref = first.match(/- button "Submit" \[disabled\] (@e\d+)/)[1];
+
+		root.querySelector("main").insertAdjacentHTML("afterbegin", "<button>New</button>");
+		const second = await a11ySnapshotTool().run(args, ctx);
+		assert.ok(second.includes(`- button "Submit" [disabled] ${ref}`));
+
+		const html = await domSubtreeHtmlTool().run({ xpath: ref }, ctx);
+		assert.equal(html, "<button disabled=\"\">Submit</button>");
+		const found = await jsInterpreterTool().run({ code: `return x("${ref}")[0].textContent;`, async: false }, ctx);
+		assert.equal(found, "Submit");
+		const scoped = await jsInterpreterTool().run({ code: `return x("${ref}", x("//nav")[0]).length;`, async: false }, ctx);
+		assert.equal(scoped, 0);
+		const navCtx = { ...ctx, viewRoot: root.querySelector("nav") };
+		assert.equal(await jsInterpreterTool().run({ code: `return x("${ref}").length;`, async: false }, navCtx), 0);
+
+		const button = root.querySelector("button[disabled]");
+		await domRemoveTool().run({ xpath: ref }, ctx);
+		await assert.rejects(async () => domSubtreeHtmlTool().run({ xpath: ref }, ctx), /Unknown element ref/);
+		root.querySelector("main").append(button);
+		await assert.rejects(async () => domSubtreeHtmlTool().run({ xpath: ref }, ctx), /Unknown element ref/);
+	});
+});
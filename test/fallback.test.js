@@ -0,0 +1,160 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import * as E from "fp-ts/lib/Either.js";
+import { createAgentMessages, createFallbackAdapter, runAgent } from "../dist/index.js";
+
+async function collectEvents(generator) {
+	const events = [];
+	for await (const ev of generator) {
+		events.push(ev);
+	}
+	return events;
+}
+
+function fakeAdapter(model, script, extra = {}) {
+	const calls = [];
+	return {
+		model,
+		calls,
+		...extra,
+		generate: async function* () {
+			calls.push(Date.now());
+			const steps = typeof script === "function" ? script(calls.length) : script;
+			for (const step of steps) {
+				yield step instanceof Error ? E.left(step) : E.right(step);
+			}
+		},
+	};
+}
+
+const fail = (message) => Object.assign(new Error(message), { status: 503 });
+
+test("falls over to the next adapter and reports the serving model", async () => {
+	const primary = fakeAdapter("primary", [fail("overloaded")]);
+	const secondary = fakeAdapter("secondary", [{ type: "message.delta", delta: "hi" }]);
+	const adapter = createFallbackAdapter([primary, secondary]);
+
+	const events = await collectEvents(runAgent(createAgentMessages(), adapter.generate, "hi"));
+	const rights = events.filter(E.isRight).map((ev) => ev.right);
+
+	assert.deepEqual(
+		rights.find((ev) => ev.type === "model.selected"),
+		{ type: "model.selected", model: "secondary", index: 1, skipped: [{ model: "primary", reason: "overloaded" }] }
+	);
+	assert.ok(rights.some((ev) => ev.type === "message" && ev.content === "hi"));
+	assert.deepEqual(
+		adapter.health().map((entry) => [entry.model, entry.state, entry.consecutiveFailures]),
+		[
+			["primary", "closed", 1],
+			["secondary", "closed", 0],
+		]
+	);
+});
+
+test("opens the circuit after repeated failures and probes again after the cooldown", async () => {
+	let clock = 0;
+	const primary = fakeAdapter("primary", (call) =>
+		call <= 2 ? [fail("down")] : [{ type: "message.delta", delta: "back" }]
+	);
+	const secondary = fakeAdapter("secondary", [{ type: "message.delta", delta: "spare" }]);
+	const adapter = createFallbackAdapter([primary, secondary], {
+		failureThreshold: 2,
+		cooldownMs: 1_000,
+		now: () => clock,
+	});
+	const selectedModel = async () => {
+		const events = await collectEvents(adapter.generate([]));
+		return events.find((ev) => E.isRight(ev) && ev.right.type === "model.selected").right;
+	};
+
+	await selectedModel();
+	await selectedModel();
+	assert.equal(adapter.health()[0].state, "open");
+
+	const skipped = await selectedModel();
+	assert.equal(primary.calls.length, 2);
+	assert.deepEqual(skipped.skipped, [{ model: "primary", reason: "circuit open" }]);
+
+	clock = 1_000;
+	assert.equal(adapter.health()[0].state, "half_open");
+	const recovered = await selectedModel();
+	assert.equal(recovered.model, "primary");
+	assert.equal(adapter.health()[0].state, "closed");
+});
+
+test("does not fail over once a model has started streaming", async () => {
+	const primary = fakeAdapter("primary", [{ type: "message.delta", delta: "par" }, fail("connection reset")]);
+	const secondary = fakeAdapter("secondary", [{ type: "message.delta", delta: "spare" }]);
+	const adapter = createFallbackAdapter([primary, secondary]);
+
+	const events = await collectEvents(adapter.generate([]));
+
+	assert.equal(secondary.calls.length, 0);
+	assert.equal(events.at(-1).left.message, "connection reset");
+});
+
+test("a probe that starts streaming closes the circuit even if the consumer stops early", async () => {
+	let clock = 0;
+	const controller = new AbortController();
+	const primary = fakeAdapter("primary", (call) => {
+		if (call === 1) {
+			return [fail("down")];
+		}
+		if (call === 3) {
+			controller.abort();
+			return [{ type: "message.delta", delta: "par" }, Object.assign(new Error("aborted"), { name: "AbortError" })];
+		}
+		return [{ type: "message.delta", delta: "one" }, { type: "message.delta", delta: "two" }];
+	});
+	const adapter = createFallbackAdapter([primary], { failureThreshold: 1, cooldownMs: 1_000, now: () => clock });
+
+	await collectEvents(adapter.generate([]));
+	clock = 1_000;
+	for await (const event of adapter.generate([])) {
+		if (E.isRight(event) && event.right.type === "message.delta") {
+			break;
+		}
+	}
+	assert.equal(adapter.health()[0].state, "closed");
+	assert.equal(adapter.health()[0].consecutiveFailures, 0);
+
+	await collectEvents(adapter.generate([], undefined, controller.signal));
+	assert.equal(primary.calls.length, 3);
+	assert.equal(adapter.health()[0].state, "closed");
+	assert.equal(adapter.health()[0].consecutiveFailures, 0);
+});
+
+test("a recovered provider closes its circuit when runAgent stops reading at done", async () => {
+	let clock = 0;
+	const primary = fakeAdapter("primary", (call) =>
+		call === 1 ? [fail("down")] : [{ type: "message", content: "back" }, { type: "done" }, { type: "usage", usage: {} }]
+	);
+	const adapter = createFallbackAdapter([primary], { failureThreshold: 1, cooldownMs: 1_000, now: () => clock });
+
+	await collectEvents(adapter.generate([]));
+	clock = 1_000;
+	const events = await collectEvents(runAgent(createAgentMessages(), adapter.generate, "hi"));
+
+	assert.ok(events.some((ev) => E.isRight(ev) && ev.right.type === "message" && ev.right.content === "back"));
+	assert.equal(adapter.health()[0].state, "closed");
+});
+
+test("reports every failure when the whole chain is down", async () => {
+	const adapter = createFallbackAdapter([fakeAdapter("a", [fail("a down")]), fakeAdapter("b", [fail("b down")])]);
+
+	const events = await collectEvents(adapter.generate([]));
+
+	assert.equal(events.length, 1);
+	assert.equal(events[0].left.message, "All models failed (a: a down; b: b down)");
+});
+
+test("uses the smallest context window and the largest token count of the chain", async () => {
+	const adapter = createFallbackAdapter([
+		fakeAdapter("big", [], { contextWindowTokens: 400_000, countTokens: () => 100 }),
+		fakeAdapter("small", [], { contextWindowTokens: 128_000, countTokens: async () => 120 }),
+	]);
+
+	assert.equal(adapter.model, "big");
+	assert.equal(adapter.contextWindowTokens, 128_000);
+	assert.equal(await adapter.countTokens([]), 120);
+});
@@ -0,0 +1,157 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { createServer } from "node:http";
+import * as E from "fp-ts/lib/Either.js";
+import {
+	createAgentMessages,
+	createFetchStreamAdapter,
+	createNodeAgentStreamHandler,
+	runAgent,
+	Tool,
+} from "../dist/index.js";
+
+async function collectEvents(generator) {
+	const events = [];
+	for await (const ev of generator) {
+		events.push(ev);
+	}
+	return events;
+}
+
+function rightEvents(events) {
+	return events.filter(E.isRight).map((event) => event.right);
+}
+
+async function withServer(handler, run) {
+	const server = createServer((req, res) => {
+		handler(req, res);
+	});
+	await new Promise((resolve) => server.listen(0, "127.0.0.1", resolve));
+	const { port } = server.address();
+	try {
+		return await run(`http://127.0.0.1:${port}/api/agent`);
+	} finally {
+		server.closeAllConnections();
+		await new Promise((resolve) => server.close(resolve));
+	}
+}
+
+function scriptedGenerate(steps, seen = []) {
+	return async function* (messages, tools) {
+		seen.push({ messages, tools });
+		for (const event of steps[seen.length - 1] ?? []) {
+			yield event instanceof Error ? E.left(event) : E.right(event);
+		}
+	};
+}
+
+for (const format of ["sse", "ndjson"]) {
+	test(`fetch stream adapter round-trips events as ${format}`, async () => {
+		const seen = [];
+		const handler = createNodeAgentStreamHandler(
+			scriptedGenerate(
+				[
+					[{ type: "tool.start", name: "echo", args: "{\"text\":\"hey\"}", callId: "call-1" }],
+					[
+						{ type: "thinking.delta", delta: "ok" },
+						{ type: "message.delta", delta: "done" },
+						{
+							type: "usage",
+							usage: { inputTokens: 1, outputTokens: 2, reasoningTokens: 0, cachedInputTokens: 0 },
+						},
+					],
+				],
+				seen
+			)
+		);
+		const echo = new Tool(
+			"echo",
+			"Echoes text.",
+			async ({ text }) => text,
+			{ type: "object", properties: { text: { type: "string" } }, required: ["text"] },
+			{ type: "string" }
+		);
+
+		const events = await withServer(handler, (url) => {
+			const adapter = createFetchStreamAdapter({ url, format });
+			return collectEvents(runAgent(createAgentMessages(), adapter.generate, "echo hey", [echo]));
+		});
+		const rights = rightEvents(events);
+
+		assert.ok(rights.some((ev) => ev.type === "tool.end" && ev.result === "hey"));
+		assert.ok(rights.some((ev) => ev.type === "message" && ev.content === "done"));
+		assert.ok(rights.some((ev) => ev.type === "usage"));
+		assert.equal(seen[0].tools[0].name, "echo");
+		assert.deepEqual(seen[1].messages.at(-1), { type: "function_call_output", call_id: "call-1", output: "hey" });
+	});
+}
+
+test("stream errors from the server become Left events", async () => {
+	const handler = createNodeAgentStreamHandler(
+		scriptedGenerate([[{ type: "message.delta", delta: "partial" }, new Error("model overloaded")]])
+	);
+
+	const events = await withServer(handler, (url) =>
+		collectEvents(createFetchStreamAdapter({ url }).generate([{ role: "user", content: "hi" }]))
+	);
+
+	assert.deepEqual(events[0], E.right({ type: "message.delta", delta: "partial" }));
+	assert.ok(E.isLeft(events[1]));
+	assert.equal(events[1].left.message, "model overloaded");
+	assert.equal(events.length, 2);
+});
+
+test("node handler rejects malformed requests", async () => {
+	const handler = createNodeAgentStreamHandler(scriptedGenerate([]));
+
+	await withServer(handler, async (url) => {
+		const badBody = await fetch(url, { method: "POST", body: "{\"nope\":true}" });
+		assert.equal(badBody.status, 400);
+		assert.match((await badBody.json()).error.message, /messages array/);
+
+		const wrongMethod = await fetch(url);
+		assert.equal(wrongMethod.status, 405);
+	});
+});
+
+test("node handler answers request stream errors and counts string chunks in bytes", async () => {
+	const respond = async (chunks, options) => {
+		const response = {
+			statusCode: 0,
+			headers: {},
+			body: "",
+			writableEnded: false,
+			setHeader(name, value) {
+				this.headers[name] = value;
+			},
+			write(chunk) {
+				this.body += chunk;
+			},
+			end(chunk = "") {
+				this.body += chunk;
+				this.writableEnded = true;
+			},
+		};
+		const request = {
+			method: "POST",
+			headers: {},
+			async *[Symbol.asyncIterator]() {
+				for (const chunk of chunks) {
+					if (chunk instanceof Error) {
+						throw chunk;
+					}
+					yield chunk;
+				}
+			},
+		};
+		await createNodeAgentStreamHandler(scriptedGenerate([]), options)(request, response);
+		return response;
+	};
+
+	const reset = await respond(["{\"messages\":", new Error("socket hang up")]);
+	assert.equal(reset.statusCode, 400);
+	assert.match(JSON.parse(reset.body).error.message, /socket hang up/);
+
+	const tooLarge = await respond(["ééé"], { maxBodyBytes: 5 });
+	assert.equal(tooLarge.statusCode, 413);
+});
@@ -122,6 +122,23 @@ test("jsInterpreter supports async execution", async () => {
 	});
 });
 
+test("jsInterpreter passes the tool signal to async code", async () => {
+	await withDom("<div id=\"root\"></div>", async (dom) => {
+		const tool = jsInterpreterTool();
+		const root = dom.window.document.querySelector("#root");
+		const controller = new AbortController();
+		const pending = tool.run(
+			{
+				code: "return await new Promise((resolve) => signal.addEventListener('abort', () => resolve(signal.reason.message)));",
+				async: true,
+			},
+			{ viewRoot: root, document: dom.window.document, window: dom.window, signal: controller.signal }
+		);
+		setTimeout(() => controller.abort(new Error("stop")), 10);
+		assert.equal(await pending, "stop");
+	});
+});
+
 test("jsInterpreter exposes jQuery alias when present", async () => {
 	await withDom("<div id=\"root\"></div>", async (dom) => {
 		dom.window.$ = () => "jq";
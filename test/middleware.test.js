@@ -0,0 +1,128 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import * as E from "fp-ts/lib/Either.js";
+import { AdapterHttpError, composeGenerate, withRetry, withTimeout } from "../dist/index.js";
+
+async function collectEvents(generator) {
+	const events = [];
+	for await (const ev of generator) {
+		events.push(ev);
+	}
+	return events;
+}
+
+function scripted(attempts) {
+	const calls = [];
+	const generate = async function* (messages, tools, signal) {
+		calls.push({ signal });
+		const script = attempts[calls.length - 1] ?? [];
+		for (const step of script) {
+			if (step === "hang") {
+				await new Promise((resolve) => signal?.addEventListener("abort", resolve, { once: true }));
+				return;
+			}
+			if (step instanceof Error) {
+				yield E.left(step);
+				return;
+			}
+			yield E.right(step);
+		}
+	};
+	return { generate, calls };
+}
+
+const httpError = (status, headers = {}) => new AdapterHttpError(`status ${status}`, status, new Headers(headers));
+
+test("retries rate limits before anything was streamed and honors retry-after", async () => {
+	const { generate, calls } = scripted([
+		[httpError(429, { "retry-after-ms": "5" })],
+		[httpError(503)],
+		[{ type: "message.delta", delta: "ok" }],
+	]);
+	const wrapped = composeGenerate(generate, withRetry({ baseDelayMs: 2, jitter: false }));
+
+	const events = await collectEvents(wrapped([]));
+
+	assert.equal(calls.length, 3);
+	assert.deepEqual(
+		events.map((ev) => ev.right),
+		[
+			{ type: "retry", attempt: 1, maxRetries: 3, delayMs: 5, reason: "status 429", status: 429 },
+			{ type: "retry", attempt: 2, maxRetries: 3, delayMs: 4, reason: "status 503", status: 503 },
+			{ type: "message.delta", delta: "ok" },
+		]
+	);
+});
+
+test("does not restart a stream that already produced output", async () => {
+	const { generate, calls } = scripted([[{ type: "message.delta", delta: "partial" }, httpError(500)]]);
+	const wrapped = withRetry({ baseDelayMs: 1 })(generate);
+
+	const events = await collectEvents(wrapped([]));
+
+	assert.equal(calls.length, 1);
+	assert.equal(events.length, 2);
+	assert.equal(events[1].left.status, 500);
+});
+
+test("errors thrown after the stream committed are yielded as errors", async () => {
+	const throwing = async function* () {
+		yield E.right({ type: "message.delta", delta: "partial" });
+		throw new TypeError("socket closed");
+	};
+
+	for (const middleware of [withRetry({ baseDelayMs: 1 }), withTimeout(1_000)]) {
+		const events = await collectEvents(middleware(throwing)([]));
+		assert.equal(events.length, 2);
+		assert.equal(events[1].left.message, "socket closed");
+	}
+});
+
+test("passes through errors that are not retryable or exhaust the retries", async () => {
+	const badRequest = scripted([[httpError(400)]]);
+	const badEvents = await collectEvents(withRetry({ baseDelayMs: 1 })(badRequest.generate)([]));
+	assert.equal(badRequest.calls.length, 1);
+	assert.equal(badEvents[0].left.status, 400);
+
+	const overloaded = scripted([[httpError(529)], [httpError(529)], [httpError(529)]]);
+	const events = await collectEvents(withRetry({ maxRetries: 2, baseDelayMs: 1 })(overloaded.generate)([]));
+	assert.equal(overloaded.calls.length, 3);
+	assert.deepEqual(
+		events.map((ev) => (E.isLeft(ev) ? "error" : ev.right.type)),
+		["retry", "retry", "error"]
+	);
+});
+
+test("times out a stalled call and retries it", async () => {
+	const { generate, calls } = scripted([
+		["hang"],
+		[{ type: "message.delta", delta: "ok" }],
+	]);
+	const wrapped = composeGenerate(generate, withRetry({ baseDelayMs: 1 }), withTimeout({ idleTimeoutMs: 20 }));
+
+	const events = await collectEvents(wrapped([]));
+
+	assert.equal(calls.length, 2);
+	assert.ok(calls[0].signal.aborted);
+	assert.equal(events[0].right.type, "retry");
+	assert.match(events[0].right.reason, /idle for 20ms/);
+	assert.deepEqual(events[1].right, { type: "message.delta", delta: "ok" });
+});
+
+test("stops waiting for a retry when the run is aborted", async () => {
+	const { generate, calls } = scripted([[httpError(503)], [{ type: "message.delta", delta: "late" }]]);
+	const controller = new AbortController();
+	const wrapped = withRetry({ baseDelayMs: 10_000 })(generate);
+
+	const events = [];
+	for await (const ev of wrapped([], undefined, controller.signal)) {
+		events.push(ev);
+		controller.abort();
+	}
+
+	assert.equal(calls.length, 1);
+	assert.deepEqual(
+		events.map((ev) => ev.right.type),
+		["retry"]
+	);
+});
@@ -0,0 +1,116 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import * as E from "fp-ts/lib/Either.js";
+import { createAgentMessages, createMockAdapter, mockStep, runAgent, Skill, Tool } from "../dist/index.js";
+
+async function collectEvents(generator) {
+	const events = [];
+	for await (const ev of generator) {
+		events.push(ev);
+	}
+	return events;
+}
+
+function rightEvents(events) {
+	return events.filter(E.isRight).map((event) => event.right);
+}
+
+const echo = new Tool(
+	"echo",
+	"Echoes text.",
+	async ({ text }) => `echo:${text}`,
+	{ type: "object", properties: { text: { type: "string" } }, required: ["text"] },
+	{ type: "string" }
+);
+const renderSkill = new Skill("canvas.render", "Renders the canvas.", "# Render", [echo]);
+
+test("scripts a skill composition and tracks depth", async () => {
+	const adapter = createMockAdapter([
+		mockStep().think("delegate").callSkill("canvas.render", "draw a hero").expectTools(["echo", "canvas.render"]).expectDepth(0),
+		mockStep().callTool("echo", { text: "hero" }).expectTools(["echo"]).expectDepth(1),
+		mockStep()
+			.when((ctx) => ctx.lastToolOutput === "echo:hero")
+			.text("hero drawn")
+			.expectDepth(1),
+		mockStep().text("all done").expectDepth(0),
+	]);
+
+	const events = await collectEvents(
+		runAgent(createAgentMessages(), adapter.generate, "make a page", [echo, renderSkill])
+	);
+	const rights = rightEvents(events);
+
+	assert.equal(events.filter(E.isLeft).length, 0);
+	adapter.assertDone();
+	assert.deepEqual(
+		adapter.calls.map((call) => call.depth),
+		[0, 1, 1, 0]
+	);
+	assert.ok(rights.some((ev) => ev.type === "tool.end" && ev.name === "canvas_render" && ev.isSkill));
+	assert.ok(rights.some((ev) => ev.type === "message" && ev.content === "all done"));
+});
+
+test("tracks depth from the calls it receives when a skill call is denied", async () => {
+	const adapter = createMockAdapter([
+		mockStep().callSkill("canvas.render", "draw a hero").expectDepth(0),
+		mockStep().callSkill("canvas.render", "draw a footer").expectDepth(0),
+		mockStep().callTool("echo", { text: "footer" }).expectDepth(1),
+		mockStep().text("footer drawn").expectDepth(1),
+		mockStep().text("all done").expectDepth(0),
+	]);
+	let approvals = 0;
+
+	const events = await collectEvents(
+		runAgent(createAgentMessages(), adapter.generate, "make a page", [echo, renderSkill], undefined, undefined, undefined, {
+			approveToolCall: () => {
+				approvals += 1;
+				return approvals === 1 ? { kind: "deny", reason: "not now" } : { kind: "approve" };
+			},
+		})
+	);
+
+	assert.equal(events.filter(E.isLeft).length, 0);
+	adapter.assertDone();
+	assert.deepEqual(
+		adapter.calls.map((call) => call.depth),
+		[0, 0, 1, 1, 0]
+	);
+});
+
+test("branches on the last tool output", async () => {
+	const adapter = createMockAdapter([
+		mockStep().callTool("echo", { text: "b" }),
+		mockStep()
+			.when((ctx) => ctx.lastToolOutput === "echo:a")
+			.text("took branch a")
+			.optional(),
+		mockStep()
+			.when((ctx) => ctx.lastToolOutput === "echo:b")
+			.text("took branch b"),
+	]);
+
+	const events = await collectEvents(runAgent(createAgentMessages(), adapter.generate, "go", [echo]));
+
+	assert.ok(rightEvents(events).some((ev) => ev.type === "message" && ev.content === "took branch b"));
+	adapter.assertDone();
+});
+
+test("fails the step when expectations do not hold", async () => {
+	const adapter = createMockAdapter([mockStep().expectTools(["missing_tool"]).text("never"), mockStep().text("unused")]);
+
+	const events = await collectEvents(runAgent(createAgentMessages(), adapter.generate, "go", [echo]));
+	const error = events.find(E.isLeft).left;
+
+	assert.equal(error.name, "MockExpectationError");
+	assert.match(error.message, /expected tools \[missing_tool\] to be offered, got \[echo\]/);
+	assert.throws(() => adapter.assertDone(), /missing_tool/);
+	assert.equal(adapter.remainingSteps(), 1);
+});
+
+test("reports calls with no step left", async () => {
+	const adapter = createMockAdapter([mockStep().callTool("echo", { text: "x" })]);
+
+	const events = await collectEvents(runAgent(createAgentMessages(), adapter.generate, "go", [echo]));
+
+	assert.match(events.find(E.isLeft).left.message, /No mock step matches call #2 at depth 0/);
+});
@@ -0,0 +1,35 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { contextWindowForModel, getModelInfo, registerModel } from "../dist/index.js";
+
+test("model registry matches dated snapshots to their base id only", () => {
+	assert.equal(getModelInfo("gpt-4o-2024-08-06")?.id, "gpt-4o");
+	assert.equal(getModelInfo("gpt-4o-mini-2024-07-18")?.id, "gpt-4o-mini");
+	assert.equal(getModelInfo("GPT-5.1-codex-mini")?.contextWindowTokens, 400_000);
+	assert.equal(getModelInfo("gpt-4o-mini")?.supportsTools, true);
+	assert.equal(getModelInfo("claude-sonnet-4-20250514")?.id, "claude-sonnet-4");
+	assert.equal(getModelInfo("my-model"), undefined);
+	assert.equal(getModelInfo("gpt-5-pro"), undefined);
+	assert.equal(getModelInfo("claude-sonnet-4-6"), undefined);
+});
+
+test("registerModel adds and overrides entries", () => {
+	registerModel({
+		id: "local-llama",
+		contextWindowTokens: 8_192,
+		maxOutputTokens: 2_048,
+		supportsReasoning: false,
+		supportsTools: true,
+	});
+	assert.equal(contextWindowForModel("local-llama"), 8_192);
+
+	registerModel({ id: "local-llama", pricing: { inputPer1M: 0, outputPer1M: 0 } });
+	assert.equal(getModelInfo("local-llama")?.contextWindowTokens, 8_192);
+	assert.deepEqual(getModelInfo("local-llama")?.pricing, { inputPer1M: 0, outputPer1M: 0 });
+
+	assert.throws(() => registerModel({ id: "half-described", contextWindowTokens: 1_000 }), /not registered/);
+});
+
+test("contextWindowForModel falls back to the default for unknown models", () => {
+	assert.equal(contextWindowForModel("mystery-128k"), 96_000);
+});
@@ -0,0 +1,263 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { JSDOM } from "jsdom";
+import {
+	applySandboxHtml,
+	createIframeSandbox,
+	domBindEventTool,
+	jsInterpreterTool,
+} from "../dist/index.js";
+
+function withDom(html, fn) {
+	const dom = new JSDOM(html, { url: "https://example.com", runScripts: "dangerously" });
+	const keys = ["window", "document", "Node", "XPathResult"];
+	const prev = Object.fromEntries(keys.map((key) => [key, globalThis[key]]));
+	for (const key of keys) {
+		globalThis[key] = key === "window" ? dom.window : dom.window[key];
+	}
+	const restore = () => {
+		for (const key of keys) {
+			if (prev[key] === undefined) {
+				delete globalThis[key];
+			} else {
+				globalThis[key] = prev[key];
+			}
+		}
+	};
+	return Promise.resolve(fn(dom)).finally(restore);
+}
+
+// jsdom does not run srcdoc scripts, so boot the sandbox frame by hand.
+function bootFrames(dom) {
+	const observer = new dom.window.MutationObserver(() => {
+		for (const frame of dom.window.document.querySelectorAll("iframe[sandbox]:not([data-booted])")) {
+			frame.setAttribute("data-booted", "");
+			frame.contentWindow.eval(frame.srcdoc.match(/<script[^>]*>([\s\S]*)<\/script>/)[1]);
+		}
+	});
+	observer.observe(dom.window.document.body, { childList: true });
+	return observer;
+}
+
+const until = async (predicate) => {
+	for (let attempt = 0; attempt < 50 && !predicate(); attempt += 1) {
+		await new Promise((resolve) => setTimeout(resolve, 10));
+	}
+};
+
+test("sandboxed jsInterpreter edits a copy of viewRoot and applies it back", async () => {
+	await withDom("<div id=\"root\"><button id=\"keep\">Keep</button><p>Old</p></div>", async (dom) => {
+		const observer = bootFrames(dom);
+		const sandbox = createIframeSandbox({ document: dom.window.document });
+		const root = dom.window.document.querySelector("#root");
+		const keep = dom.window.document.querySelector("#keep");
+		let clicks = 0;
+		keep.addEventListener("click", () => {
+			clicks += 1;
+		});
+
+		const result = await jsInterpreterTool({ sandbox }).run(
+			{
+				code: "x('//p')[0].textContent = 'New'; viewRoot.setAttribute('data-done', '1'); return [typeof window, typeof localStorage, typeof document];",
+				async: false,
+			},
+			{ viewRoot: root, document: dom.window.document, window: dom.window }
+		);
+
+		assert.deepEqual([...result], ["undefined", "undefined", "object"]);
+		assert.equal(root.innerHTML, "<button id=\"keep\">Keep</button><p>New</p>");
+		assert.equal(root.getAttribute("data-done"), "1");
+		assert.equal(dom.window.document.querySelector("#keep"), keep);
+		keep.click();
+		assert.equal(clicks, 1);
+
+		await assert.rejects(
+			jsInterpreterTool({ sandbox }).run({ code: "viewRoot.innerHTML = ''; throw new TypeError('nope');", async: false }, { viewRoot: root }),
+			(error) => error.name === "SandboxError" && error.remoteName === "TypeError" && error.message === "nope"
+		);
+		assert.equal(root.querySelector("p").textContent, "New");
+		sandbox.dispose();
+		observer.disconnect();
+	});
+});
+
+test("sandbox runs time out and tear down the frame", async () => {
+	await withDom("<div id=\"root\"></div>", async (dom) => {
+		const observer = bootFrames(dom);
+		const sandbox = createIframeSandbox({ document: dom.window.document, timeoutMs: 50 });
+		const root = dom.window.document.querySelector("#root");
+
+		await assert.rejects(
+			sandbox.run({ code: "await new Promise(() => {});", async: true, html: root.outerHTML }),
+			(error) => error.name === "SandboxTimeoutError" && error.timeoutMs === 50
+		);
+		assert.equal(dom.window.document.querySelectorAll("iframe").length, 0);
+
+		const next = await sandbox.run({ code: "return 1 + 1;", html: root.outerHTML });
+		assert.equal(next.result, 2);
+		sandbox.dispose();
+		observer.disconnect();
+	});
+});
+
+test("a timed-out run does not reject other runs in the same frame", async () => {
+	await withDom("<div id=\"root\"></div>", async (dom) => {
+		const observer = bootFrames(dom);
+		const sandbox = createIframeSandbox({ document: dom.window.document, timeoutMs: 150 });
+		const root = dom.window.document.querySelector("#root");
+
+		const stuck = sandbox.run({ code: "await new Promise(() => {});", async: true, html: root.outerHTML });
+		await new Promise((resolve) => setTimeout(resolve, 100));
+		const slow = sandbox.run({
+			code: "await new Promise((resolve) => setTimeout(resolve, 100)); return 'slow';",
+			async: true,
+			html: root.outerHTML,
+		});
+
+		await assert.rejects(stuck, (error) => error.name === "SandboxTimeoutError");
+		assert.equal(dom.window.document.querySelectorAll("iframe").length, 1);
+		assert.equal((await slow).result, "slow");
+		assert.equal(dom.window.document.querySelectorAll("iframe").length, 0);
+		sandbox.dispose();
+		observer.disconnect();
+	});
+});
+
+test("the sandbox frame blocks network access with a nonce-based CSP", async () => {
+	await withDom("<div id=\"root\"></div>", async (dom) => {
+		const observer = bootFrames(dom);
+		const sandbox = createIframeSandbox({ document: dom.window.document });
+		const root = dom.window.document.querySelector("#root");
+
+		await sandbox.run({ code: "return 1;", html: root.outerHTML });
+		const srcdoc = dom.window.document.querySelector("iframe").srcdoc;
+		const nonce = srcdoc.match(/<script nonce="([^"]+)">/)[1];
+		const csp = srcdoc.match(/<meta http-equiv="Content-Security-Policy" content="([^"]+)">/)[1];
+		assert.match(csp, /default-src 'none'/);
+		assert.match(csp, /connect-src 'none'/);
+		assert.ok(csp.includes(`script-src 'nonce-${nonce}'`));
+		assert.ok(srcdoc.indexOf("Content-Security-Policy") < srcdoc.indexOf("<script"));
+		sandbox.dispose();
+		observer.disconnect();
+	});
+});
+
+test("sandboxed event handlers run against the clicked element", async () => {
+	await withDom("<div id=\"root\"><p>0</p><button>+</button></div>", async (dom) => {
+		const observer = bootFrames(dom);
+		const sandbox = createIframeSandbox({ document: dom.window.document });
+		const root = dom.window.document.querySelector("#root");
+		const tool = domBindEventTool({ sandbox });
+
+		const bound = await tool.run(
+			{
+				xpath: "//button",
+				event: "click",
+				code: "const p = x('//p')[0]; p.textContent = String(Number(p.textContent) + 1); element.dataset.type = event.type;",
+			},
+			{ viewRoot: root, document: dom.window.document, window: dom.window }
+		);
+		assert.equal(bound.attached, 1);
+		assert.match(tool.description, /isolated sandbox/);
+
+		const button = root.querySelector("button");
+		button.click();
+		await until(() => root.querySelector("p").textContent === "1");
+		assert.equal(root.querySelector("p").textContent, "1");
+		assert.equal(button.dataset.type, "click");
+		sandbox.dispose();
+		observer.disconnect();
+	});
+});
+
+test("sandboxed runs can capture console output", async () => {
+	await withDom("<div id=\"root\"><p>Hi</p></div>", async (dom) => {
+		const observer = bootFrames(dom);
+		const sandbox = createIframeSandbox({ document: dom.window.document });
+		const root = dom.window.document.querySelector("#root");
+		const tool = jsInterpreterTool({ sandbox, capture: true });
+		const ctx = { viewRoot: root, document: dom.window.document, window: dom.window };
+
+		const output = await tool.run({ code: "console.log('count', x('//p').length); return 'ok';", async: false }, ctx);
+		assert.equal(output.result, "ok");
+		assert.deepEqual(output.logs.map(({ level, message }) => ({ level, message })), [{ level: "log", message: "count 1" }]);
+
+		await assert.rejects(
+			tool.run({ code: "console.warn('before'); throw new Error('broken');", async: false }, ctx),
+			(error) => error.name === "ScriptError" && error.logs[0].message === "before"
+		);
+		sandbox.dispose();
+		observer.disconnect();
+	});
+});
+
+test("applySandboxHtml keeps unchanged nodes when content is inserted before them", async () => {
+	await withDom("<ul id=\"root\"><li>b</li></ul>", async (dom) => {
+		const root = dom.window.document.querySelector("#root");
+		const original = root.firstChild;
+
+		applySandboxHtml(root, "<ul id=\"root\" class=\"list\"><li>a</li><li>b</li></ul>");
+
+		assert.equal(root.outerHTML, "<ul id=\"root\" class=\"list\"><li>a</li><li>b</li></ul>");
+		assert.equal(root.children[1], original);
+	});
+});
+
+test("applySandboxHtml drops SVG animations that could set a javascript: URL", async () => {
+	await withDom("<div id=\"root\"><svg><a><text>Go</text></a></svg></div>", async (dom) => {
+		const root = dom.window.document.querySelector("#root");
+
+		applySandboxHtml(
+			root,
+			[
+				"<div id=\"root\"><svg><a><text>Go</text>",
+				"<animate attributeName=\"href\" values=\"javascript:alert(1)\"></animate>",
+				"<set attributeName=\"href\" to=\"javascript:alert(2)\"></set>",
+				"<animateTransform attributeName=\"transform\" type=\"rotate\" to=\"90\"></animateTransform>",
+				"</a></svg></div>",
+			].join("")
+		);
+
+		assert.equal(root.querySelector("a").children.length, 1);
+		assert.equal(root.querySelector("text").textContent, "Go");
+	});
+});
+
+test("sandboxed code cannot inject handlers into the page or forge replies", async () => {
+	await withDom("<div id=\"root\"><p onclick=\"window.clicked = 1\">Hi</p></div>", async (dom) => {
+		const observer = bootFrames(dom);
+		const sandbox = createIframeSandbox({ document: dom.window.document });
+		const root = dom.window.document.querySelector("#root");
+		const tool = jsInterpreterTool({ sandbox });
+		const ctx = { viewRoot: root, document: dom.window.document, window: dom.window };
+
+		const result = await tool.run(
+			{
+				code: [
+					"viewRoot.insertAdjacentHTML('beforeend', '<img src=\"x.png\" onerror=\"window.hacked = 1\"><script>window.hacked = 2</script><a href=\" javascript:void 0\">a</a>');",
+					"x('//p')[0].setAttribute('onmouseover', 'window.hacked = 3');",
+					"const win = document.defaultView;",
+					"win.addEventListener('message', (message) => win.parent.postMessage({ ...message.data, ok: true, result: 'forged' }, '*'));",
+					"return typeof eval;",
+				].join("\n"),
+				async: false,
+			},
+			ctx
+		);
+		assert.equal(result, "undefined");
+
+		const image = root.querySelector("img");
+		assert.equal(image.hasAttribute("onerror"), false);
+		image.dispatchEvent(new dom.window.Event("error"));
+		root.querySelector("p").dispatchEvent(new dom.window.MouseEvent("mouseover"));
+		assert.equal(dom.window.hacked, undefined);
+		assert.equal(root.querySelector("script"), null);
+		assert.equal(root.querySelector("a").hasAttribute("href"), false);
+		root.querySelector("p").click();
+		assert.equal(dom.window.clicked, 1);
+
+		assert.equal(await tool.run({ code: "return 'real';", async: false }, ctx), "real");
+		sandbox.dispose();
+		observer.disconnect();
+	});
+});
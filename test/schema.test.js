@@ -0,0 +1,61 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { validateJsonSchema } from "../dist/index.js";
+
+const schema = {
+	type: "object",
+	properties: {
+		xpath: { type: "string" },
+		mode: { type: "string", enum: ["append", "replace"] },
+		depth: { type: ["integer", "null"] },
+		items: {
+			type: "array",
+			items: {
+				type: "object",
+				properties: { id: { type: "number" } },
+				required: ["id"],
+				additionalProperties: false,
+			},
+		},
+	},
+	required: ["xpath", "mode"],
+	additionalProperties: false,
+};
+
+test("validateJsonSchema accepts matching values", () => {
+	const issues = validateJsonSchema(schema, {
+		xpath: "//div",
+		mode: "append",
+		depth: null,
+		items: [{ id: 1 }, { id: 2 }],
+	});
+	assert.deepEqual(issues, []);
+});
+
+test("validateJsonSchema reports nested issues with paths", () => {
+	const issues = validateJsonSchema(schema, {
+		mode: "prepend",
+		depth: 1.5,
+		items: [{ id: "x" }, { id: 2, extra: true }],
+		other: 1,
+	});
+	const paths = issues.map((issue) => issue.path).sort();
+	assert.deepEqual(paths, [
+		"$.depth",
+		"$.items[0].id",
+		"$.items[1].extra",
+		"$.mode",
+		"$.other",
+		"$.xpath",
+	]);
+});
+
+test("validateJsonSchema checks top-level type unions", () => {
+	assert.equal(validateJsonSchema({ type: ["string", "null"] }, 3).length, 1);
+	assert.equal(validateJsonSchema({ type: ["string", "null"] }, null).length, 0);
+});
+
+test("validateJsonSchema only counts own properties as present", () => {
+	const issues = validateJsonSchema({ type: "object", required: ["toString"] }, {});
+	assert.deepEqual(issues.map((issue) => issue.path), ["$.toString"]);
+});
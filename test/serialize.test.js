@@ -0,0 +1,177 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { JSDOM } from "jsdom";
+import * as E from "fp-ts/lib/Either.js";
+import {
+	createAgentMessages,
+	registerModelTokenizer,
+	registerTokenizer,
+	runAgent,
+	serializeResult,
+	toSerializable,
+	Tool,
+} from "../dist/index.js";
+
+async function collectEvents(generator) {
+	const events = [];
+	for await (const ev of generator) {
+		events.push(ev);
+	}
+	return events;
+}
+
+test("toSerializable renders nodes, cycles and non-JSON values", () => {
+	const dom = new JSDOM("<main id=\"root\"><div class=\"card\">One</div><div>Two</div></main>");
+	const root = dom.window.document.getElementById("root");
+	const error = new TypeError("nope");
+	const value = {
+		nodes: root.querySelectorAll("div"),
+		map: new Map([["a", 1n]]),
+		set: new Set(["x"]),
+		error,
+		fn: function handler() {},
+		missing: undefined,
+		when: new Date(0),
+	};
+	value.self = value;
+
+	const serialized = toSerializable(value, { root, previewChars: 12 });
+
+	assert.deepEqual(serialized.nodes, [
+		{ node: "div", xpath: "/div[1]", html: "<div class=\"…" },
+		{ node: "div", xpath: "/div[2]", html: "<div>Two</di…" },
+	]);
+	assert.deepEqual(serialized.map, { $type: "Map", entries: [["a", "1n"]] });
+	assert.deepEqual(serialized.set, { $type: "Set", values: ["x"] });
+	assert.equal(serialized.error.name, "TypeError");
+	assert.equal(serialized.error.message, "nope");
+	assert.equal(serialized.fn, "[Function handler]");
+	assert.equal(serialized.self, "[Circular]");
+	assert.equal(serialized.when, "1970-01-01T00:00:00.000Z");
+	assert.ok(!("missing" in serialized));
+	assert.deepEqual(toSerializable(root.firstChild.firstChild), { node: "#text", xpath: "/html[1]/body[1]/main[1]/div[1]", text: "One" });
+});
+
+test("serializeResult caps items and truncates by token budget", () => {
+	const items = Array.from({ length: 5 }, (_, index) => index);
+	assert.equal(serializeResult(items, { maxItems: 2 }), "[0,1,\"… 3 more items\"]");
+
+	const long = "word ".repeat(400);
+	const truncated = serializeResult(long, { maxTokens: 50 });
+	assert.ok(truncated.startsWith("word ".repeat(40)) && !truncated.startsWith("word ".repeat(41)));
+	assert.match(truncated, /\[truncated: the result was about 500 tokens; only the first 50 are shown\]$/);
+	assert.equal(serializeResult(undefined), "null");
+});
+
+test("short results are still measured with the model's tokenizer", () => {
+	registerTokenizer({ name: "utf8-bytes", encode: (text) => Array.from(new TextEncoder().encode(text)) });
+	registerModelTokenizer("byte-model", "utf8-bytes");
+
+	const text = "漢字".repeat(10);
+	const truncated = serializeResult(text, { maxTokens: 30, model: "byte-model" });
+	assert.match(truncated, /^(?:漢字){5}\n…\[truncated: the result was about 60 tokens; only the first 30 are shown\]$/);
+	assert.equal(serializeResult("plain", { maxTokens: 30, model: "byte-model" }), "plain");
+});
+
+test("tool results are serialized safely and tools can format their own output", async () => {
+	const dom = new JSDOM("<main id=\"root\"><p>Hi</p></main>");
+	const viewRoot = dom.window.document.getElementById("root");
+	const tools = [
+		new Tool("find", "Finds nodes.", () => Array.from(viewRoot.querySelectorAll("p")), { type: "object" }, { type: "array" }),
+		new Tool("count", "Counts nodes.", () => ({ count: 3 }), { type: "object" }, { type: "object" }, {
+			formatResult: (result) => `Found ${result.count} nodes.`,
+		}),
+		new Tool("dump", "Dumps a lot.", () => "x".repeat(2000), { type: "object" }, { type: "string" }),
+	];
+	let seen = null;
+	let calls = 0;
+	const generate = async function* (messages) {
+		calls += 1;
+		if (calls === 1) {
+			yield E.right({ type: "tool.start", name: "find", args: "{}", callId: "c1" });
+			yield E.right({ type: "tool.start", name: "count", args: "{}", callId: "c2" });
+			yield E.right({ type: "tool.start", name: "dump", args: "{}", callId: "c3" });
+			return;
+		}
+		seen = messages.filter((item) => item.type === "function_call_output");
+		yield E.right({ type: "message", content: "done" });
+	};
+
+	await collectEvents(
+		runAgent(createAgentMessages(), generate, "look", tools, 5, { viewRoot }, undefined, { maxToolResultTokens: 100 })
+	);
+
+	assert.deepEqual(JSON.parse(seen[0].output), [{ node: "p", xpath: "/p[1]", html: "<p>Hi</p>" }]);
+	assert.equal(seen[1].output, "Found 3 nodes.");
+	assert.match(seen[2].output, /^x{400}\n…\[truncated/);
+});
+
+test("DOM exceptions and tool.end results serialize without throwing", async () => {
+	const dom = new JSDOM("<main id=\"root\"><p>Hi</p></main>");
+	const viewRoot = dom.window.document.getElementById("root");
+	let domError = null;
+	try {
+		dom.window.document.querySelector("!!");
+	} catch (error) {
+		domError = error;
+	}
+	assert.equal(Object.prototype.toString.call(domError), "[object DOMException]");
+	const serialized = toSerializable({ error: domError });
+	assert.equal(serialized.error.name, "SyntaxError");
+	assert.equal(serialized.error.message, domError.message);
+
+	const cyclic = { node: viewRoot.firstChild };
+	cyclic.self = cyclic;
+	const tools = [new Tool("grab", "Grabs a node.", () => cyclic, { type: "object" }, { type: "object" })];
+	let calls = 0;
+	const generate = async function* () {
+		calls += 1;
+		if (calls === 1) {
+			yield E.right({ type: "tool.start", name: "grab", args: "{}", callId: "c1" });
+			return;
+		}
+		yield E.right({ type: "message", content: "done" });
+	};
+
+	const events = await collectEvents(runAgent(createAgentMessages(), generate, "grab", tools, 5, { viewRoot }));
+	const end = events.find((ev) => E.isRight(ev) && ev.right.type === "tool.end").right;
+	assert.deepEqual(JSON.parse(JSON.stringify(end.result)), {
+		node: { node: "p", xpath: "/p[1]", html: "<p>Hi</p>" },
+		self: "[Circular]",
+	});
+});
+
+test("a result that cannot be serialized is reported as a tool error", async () => {
+	const unserializable = {
+		toJSON() {
+			throw new Error("toJSON blew up");
+		},
+	};
+	const tools = [
+		new Tool("odd", "Returns an odd value.", () => unserializable, { type: "object" }, { type: "object" }, {
+			formatResult: () => "formatted",
+		}),
+	];
+	let calls = 0;
+	let seen = null;
+	const generate = async function* (messages) {
+		calls += 1;
+		if (calls === 1) {
+			yield E.right({ type: "tool.start", name: "odd", args: "{}", callId: "c1" });
+			return;
+		}
+		seen = messages.filter((item) => item.type === "function_call_output");
+		yield E.right({ type: "message", content: "done" });
+	};
+
+	const reported = await collectEvents(
+		runAgent(createAgentMessages(), generate, "go", tools, 5, undefined, undefined, { toolErrorPolicy: "report" })
+	);
+	const end = reported.find((ev) => E.isRight(ev) && ev.right.type === "tool.end").right;
+	assert.equal(end.isError, true);
+	assert.equal(JSON.parse(seen[0].output).error.message, "toJSON blew up");
+
+	calls = 0;
+	const aborted = await collectEvents(runAgent(createAgentMessages(), generate, "go", tools));
+	assert.equal(aborted.find(E.isLeft).left.message, "toJSON blew up");
+});
@@ -0,0 +1,121 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { JSDOM } from "jsdom";
+import * as E from "fp-ts/lib/Either.js";
+import {
+	createAgentMessages,
+	createLocalStorageSessionStore,
+	createMemorySessionStore,
+	deserializeSession,
+	isPinnedMessage,
+	isSummaryMessage,
+	loadAgentMessages,
+	pinMessage,
+	runAgent,
+	serializeSession,
+	Tool,
+} from "../dist/index.js";
+
+async function collectEvents(generator) {
+	const events = [];
+	for await (const ev of generator) {
+		events.push(ev);
+	}
+	return events;
+}
+
+function rightEvents(events) {
+	return events.filter(E.isRight).map((event) => event.right);
+}
+
+function sampleHistory() {
+	const messages = createAgentMessages();
+	messages.push(pinMessage({ role: "user", content: "brief" }));
+	messages.push({ type: "function_call", call_id: "call-1", name: "echo", arguments: "{}" });
+	messages.push({ type: "function_call_output", call_id: "call-1", output: "ok" });
+	return messages;
+}
+
+for (const [name, makeStore] of [
+	["memory", () => createMemorySessionStore()],
+	["localStorage", () => createLocalStorageSessionStore({ storage: new JSDOM("", { url: "http://localhost/" }).window.localStorage })],
+]) {
+	test(`${name} session store saves, lists, loads and deletes histories`, async () => {
+		const store = makeStore();
+		await store.save("a", sampleHistory());
+		await store.save("b", createAgentMessages());
+
+		const loaded = await store.load("a");
+		assert.deepEqual(loaded, JSON.parse(JSON.stringify(sampleHistory())));
+		assert.ok(isPinnedMessage(loaded[1]));
+		assert.ok(!isPinnedMessage(loaded[2]));
+		assert.deepEqual((await store.list()).map((info) => info.id).sort(), ["a", "b"]);
+		assert.equal((await store.list()).find((info) => info.id === "a").messageCount, 4);
+
+		await store.delete("a");
+		assert.equal(await store.load("a"), null);
+		assert.equal((await loadAgentMessages(store, "a")).length, 1);
+	});
+}
+
+test("session serialization is versioned and keeps pins and summaries", () => {
+	const messages = sampleHistory();
+	const serialized = serializeSession("demo", messages, 42);
+	assert.equal(serialized.version, 1);
+	assert.deepEqual(serialized.pinned, [1]);
+
+	const restored = deserializeSession({ ...serialized, summaries: [0] });
+	assert.ok(isPinnedMessage(restored[1]));
+	assert.ok(isSummaryMessage(restored[0]));
+
+	assert.equal(deserializeSession([{ role: "user", content: "legacy" }])[0].content, "legacy");
+	assert.throws(() => deserializeSession({ ...serialized, version: 99 }), /Unsupported session format version 99/);
+	assert.throws(() => deserializeSession({ version: 1 }), /messages array/);
+});
+
+test("runAgent persists the session after every step", async () => {
+	const store = createMemorySessionStore();
+	const snapshots = [];
+	let calls = 0;
+	const generate = async function* () {
+		calls += 1;
+		if (calls === 1) {
+			yield E.right({ type: "tool.start", name: "echo", args: "{}", callId: "call-1" });
+			return;
+		}
+		snapshots.push(await store.load("design"));
+		yield E.right({ type: "message", content: "done" });
+	};
+	const echo = new Tool("echo", "Echoes.", async () => "ok", { type: "object" }, { type: "string" });
+	const messages = createAgentMessages();
+
+	await collectEvents(runAgent(messages, generate, "go", [echo], 5, undefined, undefined, {
+		session: { store, id: "design" },
+	}));
+
+	assert.equal(snapshots[0].at(-1).type, "function_call_output");
+	assert.deepEqual(await store.load("design"), messages);
+	assert.equal((await store.load("design")).at(-1).content, "done");
+});
+
+test("session save failures surface as warnings without stopping the run", async () => {
+	const store = {
+		...createMemorySessionStore(),
+		save: async () => {
+			throw new Error("quota exceeded");
+		},
+	};
+	const generate = async function* () {
+		yield E.right({ type: "message", content: "hi" });
+	};
+
+	const events = await collectEvents(
+		runAgent(createAgentMessages(), generate, "go", [], 5, undefined, undefined, { session: { store, id: "s" } })
+	);
+	const rights = rightEvents(events);
+
+	const warning = rights.find((ev) => ev.type === "warning");
+	assert.equal(warning.code, "session_save_failed");
+	assert.match(warning.message, /quota exceeded/);
+	assert.equal(rights.at(-1).type, "done");
+});
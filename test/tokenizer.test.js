@@ -0,0 +1,98 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+	countTokensForModel,
+	CL100K_PATTERN,
+	createBpeTokenizer,
+	loadBpeTokenizer,
+	parseTiktokenRanks,
+	registerModelTokenizer,
+	registerTokenizer,
+	tokenizerForModel,
+} from "../dist/index.js";
+
+function byteRanks(merges) {
+	const ranks = new Map();
+	for (let byte = 0; byte < 256; byte += 1) {
+		ranks.set(String.fromCharCode(byte), byte);
+	}
+	merges.forEach((merge, index) => ranks.set(merge, 256 + index));
+	return ranks;
+}
+
+test("BPE tokenizer merges lowest-ranked pairs first", () => {
+	const tokenizer = createBpeTokenizer({
+		name: "tiny",
+		ranks: byteRanks(["ab", "abc", " abc"]),
+		pattern: CL100K_PATTERN,
+	});
+	assert.deepEqual(tokenizer.encode("abc abc"), [257, 258]);
+	assert.deepEqual(tokenizer.encode("abd"), [256, 100]);
+});
+
+test("BPE tokenizer encodes non-Latin text as UTF-8 bytes", () => {
+	const tokenizer = createBpeTokenizer({ name: "bytes", ranks: byteRanks([]) });
+	assert.equal(tokenizer.encode("привет").length, 12);
+});
+
+test("parses tiktoken rank files", async () => {
+	const lines = [];
+	for (let byte = 0; byte < 256; byte += 1) {
+		lines.push(`${btoa(String.fromCharCode(byte))} ${byte}`);
+	}
+	lines.push(`${btoa("hi")} 256`);
+	const ranks = parseTiktokenRanks(lines.join("\n"));
+	assert.equal(ranks.get("hi"), 256);
+
+	const tokenizer = await loadBpeTokenizer({ name: "hi-encoding", source: lines.join("\n") });
+	assert.deepEqual(tokenizer.encode("hi"), [256]);
+
+	await assert.rejects(
+		loadBpeTokenizer({ name: "partial-encoding", source: lines.slice(1).join("\n") }),
+		/missing byte 0x0/
+	);
+	assert.throws(() => createBpeTokenizer({ name: "partial", ranks: new Map([["a", 0]]) }), /missing byte/);
+});
+
+test("counts tokens with the tokenizer mapped to a model and caches per message", async () => {
+	let encodeCalls = 0;
+	const base = createBpeTokenizer({ name: "counting", ranks: byteRanks([]) });
+	registerTokenizer({
+		name: "counting",
+		encode: (text) => {
+			encodeCalls += 1;
+			return base.encode(text);
+		},
+	});
+	registerModelTokenizer("counting-model", "counting");
+	assert.equal(tokenizerForModel("counting-model-2025-01-31")?.name, "counting");
+	assert.equal(tokenizerForModel("counting-model-pro"), undefined);
+
+	const messages = [
+		{ role: "system", content: "ab" },
+		{ role: "user", content: "cd" },
+	];
+	const first = await countTokensForModel(messages, "counting-model");
+	const second = await countTokensForModel([...messages, { role: "assistant", content: "e" }], "counting-model");
+
+	assert.equal(first, 3 + (9 + 3) + (7 + 3));
+	assert.equal(second, first + 11 + 3);
+	assert.equal(encodeCalls, 3);
+});
+
+test("falls back to a character estimate for unknown models", async () => {
+	const count = await countTokensForModel([{ role: "user", content: "12345678" }], "unknown-model");
+	assert.equal(count, 4);
+});
+
+test("falls back to a character estimate when a registered tokenizer throws", async () => {
+	registerTokenizer({
+		name: "broken",
+		encode: () => {
+			throw new Error("bad ranks");
+		},
+	});
+	registerModelTokenizer("broken-model", "broken");
+	const count = await countTokensForModel([{ role: "user", content: "12345678" }], "broken-model");
+	assert.equal(count, 4);
+});